@@ -4,14 +4,22 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { SpeechSettingsProvider } from "@/contexts/SpeechSettingsContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import LoginPage from "./pages/LoginPage";
 import LevelSelectionPage from "./pages/LevelSelectionPage";
 import QuizPage from "./pages/QuizPage";
+import QuizResultsPage from "./pages/QuizResultsPage";
+import ShadowingPage from "./pages/ShadowingPage";
+import IntonationPage from "./pages/IntonationPage";
+import ResultsPage from "./pages/ResultsPage";
+import SettingsPage from "./pages/SettingsPage";
+import MicCheckPage from "./pages/MicCheckPage";
 import NotFound from "./pages/NotFound";
 import AdminLayout from "./pages/admin/AdminLayout";
 import DashboardPage from "./pages/admin/DashboardPage";
 import UsersPage from "./pages/admin/UsersPage";
+import UserDetailPage from "./pages/admin/UserDetailPage";
 import LevelsPage from "./pages/admin/LevelsPage";
 import LevelEditPage from "./pages/admin/LevelEditPage";
 
@@ -24,21 +32,30 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/" element={<LoginPage />} />
-            <Route path="/levels" element={<ProtectedRoute><LevelSelectionPage /></ProtectedRoute>} />
-            <Route path="/quiz/:levelNumber" element={<ProtectedRoute><QuizPage /></ProtectedRoute>} />
-            
-            {/* Admin Routes */}
-            <Route path="/admin" element={<ProtectedRoute requireAdmin><AdminLayout /></ProtectedRoute>}>
-              <Route index element={<DashboardPage />} />
-              <Route path="users" element={<UsersPage />} />
-              <Route path="levels" element={<LevelsPage />} />
-              <Route path="levels/:levelId" element={<LevelEditPage />} />
-            </Route>
-            
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <SpeechSettingsProvider>
+            <Routes>
+              <Route path="/" element={<LoginPage />} />
+              <Route path="/levels" element={<ProtectedRoute><LevelSelectionPage /></ProtectedRoute>} />
+              <Route path="/quiz/:levelNumber" element={<ProtectedRoute><QuizPage /></ProtectedRoute>} />
+              <Route path="/quiz/:levelNumber/results/:attemptId" element={<ProtectedRoute><QuizResultsPage /></ProtectedRoute>} />
+              <Route path="/shadowing/:levelNumber" element={<ProtectedRoute><ShadowingPage /></ProtectedRoute>} />
+              <Route path="/intonation/:levelNumber" element={<ProtectedRoute><IntonationPage /></ProtectedRoute>} />
+              <Route path="/results" element={<ProtectedRoute><ResultsPage /></ProtectedRoute>} />
+              <Route path="/settings" element={<ProtectedRoute><SettingsPage /></ProtectedRoute>} />
+              <Route path="/mic-check" element={<ProtectedRoute><MicCheckPage /></ProtectedRoute>} />
+              
+              {/* Admin Routes */}
+              <Route path="/admin" element={<ProtectedRoute requireAdmin><AdminLayout /></ProtectedRoute>}>
+                <Route index element={<DashboardPage />} />
+                <Route path="users" element={<UsersPage />} />
+                <Route path="users/:userId" element={<UserDetailPage />} />
+                <Route path="levels" element={<LevelsPage />} />
+                <Route path="levels/:levelId" element={<LevelEditPage />} />
+              </Route>
+              
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </SpeechSettingsProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
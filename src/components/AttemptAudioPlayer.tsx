@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { getAttemptAudioUrl } from '@/utils/speechAttempts';
+
+interface AttemptAudioPlayerProps {
+  path: string | null;
+}
+
+export const AttemptAudioPlayer = ({ path }: AttemptAudioPlayerProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  if (!path) {
+    return <span className="text-xs text-muted-foreground">No recording</span>;
+  }
+
+  const handleLoad = async () => {
+    setLoading(true);
+    try {
+      setUrl(await getAttemptAudioUrl(path));
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to load recording');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (url) {
+    return <audio src={url} controls autoPlay className="h-8 max-w-full" />;
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleLoad} disabled={loading}>
+      <Play className="h-4 w-4 mr-2" />
+      {loading ? 'Loading...' : 'Play'}
+    </Button>
+  );
+};
@@ -0,0 +1,154 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Mic, Square, Upload, Play, Check, X, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { createAudioRecorder } from '@/utils/audioRecorder';
+import { decodeAudio, trimAudio } from '@/utils/audioClip';
+import { uploadQuestionAudio } from '@/utils/questionAudio';
+
+interface AudioClipEditorProps {
+  levelId: string;
+  value: string | null;
+  onChange: (url: string | null) => void;
+  disabled?: boolean;
+}
+
+interface Clip {
+  buffer: AudioBuffer;
+  range: [number, number];
+}
+
+// Records or picks a native speaker clip, lets the admin trim silence off both
+// ends and uploads the result to the question-audio bucket.
+export const AudioClipEditor = ({ levelId, value, onChange, disabled }: AudioClipEditorProps) => {
+  const { toast } = useToast();
+  const [recording, setRecording] = useState(false);
+  const [clip, setClip] = useState<Clip | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const recorderRef = useRef(createAudioRecorder());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const showError = (description: string, error: unknown) => {
+    console.error(`${description}:`, error);
+    toast({
+      title: 'Error',
+      description,
+      variant: 'destructive',
+    });
+  };
+
+  const loadClip = async (audio: Blob) => {
+    try {
+      const buffer = await decodeAudio(audio);
+      setClip({ buffer, range: [0, buffer.duration] });
+    } catch (error) {
+      showError('Failed to read audio', error);
+    }
+  };
+
+  const handleRecord = async () => {
+    if (!recording) {
+      try {
+        await recorderRef.current.start();
+        setRecording(true);
+      } catch (error) {
+        showError('Failed to start recording', error);
+      }
+      return;
+    }
+
+    setRecording(false);
+    const audio = await recorderRef.current.stop();
+    if (audio) loadClip(audio);
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) loadClip(file);
+    event.target.value = '';
+  };
+
+  const handlePreview = () => {
+    const url = URL.createObjectURL(trimAudio(clip!.buffer, ...clip!.range));
+    const audio = new Audio(url);
+    audio.onended = () => URL.revokeObjectURL(url);
+    audio.play();
+  };
+
+  const handleUpload = async () => {
+    setUploading(true);
+    try {
+      onChange(await uploadQuestionAudio(levelId, trimAudio(clip!.buffer, ...clip!.range)));
+      setClip(null);
+    } catch (error) {
+      showError('Failed to upload audio', error);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (clip) {
+    const [start, end] = clip.range;
+
+    return (
+      <div className="space-y-2 rounded-md border p-3">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Trim</span>
+          <span>
+            {start.toFixed(2)}s – {end.toFixed(2)}s of {clip.buffer.duration.toFixed(2)}s
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={clip.buffer.duration}
+          step={0.05}
+          minStepsBetweenThumbs={1}
+          value={clip.range}
+          onValueChange={([newStart, newEnd]) => setClip({ ...clip, range: [newStart, newEnd] })}
+        />
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={handlePreview}>
+            <Play className="mr-1 h-4 w-4" />
+            Preview
+          </Button>
+          <Button type="button" size="sm" onClick={handleUpload} disabled={uploading}>
+            <Check className="mr-1 h-4 w-4" />
+            {uploading ? 'Uploading...' : 'Use Clip'}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setClip(null)} disabled={uploading}>
+            <X className="mr-1 h-4 w-4" />
+            Discard
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {value && <audio src={value} controls className="h-8 max-w-full" />}
+      <Button type="button" variant="outline" size="sm" onClick={handleRecord} disabled={disabled}>
+        {recording ? <Square className="mr-1 h-4 w-4" /> : <Mic className="mr-1 h-4 w-4" />}
+        {recording ? 'Stop' : value ? 'Re-record' : 'Record'}
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || recording}
+      >
+        <Upload className="mr-1 h-4 w-4" />
+        Upload
+      </Button>
+      <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFile} />
+      {value && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)} disabled={disabled}>
+          <Trash2 className="mr-1 h-4 w-4" />
+          Remove
+        </Button>
+      )}
+    </div>
+  );
+};
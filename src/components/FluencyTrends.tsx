@@ -0,0 +1,83 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { FluencyAttempt, FluencyTrendPoint, getFluencyTrend } from '@/utils/fluency';
+
+type TrendMetric = Exclude<keyof FluencyTrendPoint, 'date'>;
+
+const METRICS: { key: TrendMetric; title: string; description: string; color: string }[] = [
+  {
+    key: 'accuracy',
+    title: 'Accuracy (%)',
+    description: 'Share of answers that were correct',
+    color: 'hsl(var(--success))',
+  },
+  {
+    key: 'latency',
+    title: 'Response time (s)',
+    description: 'From the end of the question to the first word',
+    color: 'hsl(var(--primary))',
+  },
+  {
+    key: 'wordsPerMinute',
+    title: 'Speaking rate (WPM)',
+    description: 'Words per minute in sentence answers',
+    color: 'hsl(var(--secondary-foreground))',
+  },
+  {
+    key: 'retries',
+    title: 'Retries',
+    description: 'Tries needed before a correct answer',
+    color: 'hsl(var(--error))',
+  },
+];
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+interface FluencyTrendsProps {
+  attempts: FluencyAttempt[];
+}
+
+export const FluencyTrends = ({ attempts }: FluencyTrendsProps) => {
+  const trend = getFluencyTrend(attempts).map((point) => ({
+    ...point,
+    latency: point.latency === null ? null : Math.round(point.latency * 10) / 10,
+    accuracy: point.accuracy === null ? null : Math.round(point.accuracy),
+    wordsPerMinute: point.wordsPerMinute === null ? null : Math.round(point.wordsPerMinute),
+    retries: point.retries === null ? null : Math.round(point.retries * 10) / 10,
+  }));
+
+  if (trend.length < 2) {
+    return <p className="p-6 text-center text-muted-foreground">Trends appear once there are attempts from at least two days.</p>;
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      {METRICS.map((metric) => {
+        const config: ChartConfig = { [metric.key]: { label: metric.title, color: metric.color } };
+
+        return (
+          <div key={metric.key}>
+            <p className="font-medium">{metric.title}</p>
+            <p className="mb-2 text-xs text-muted-foreground">{metric.description}</p>
+            <ChartContainer config={config} className="aspect-[2/1] w-full">
+              <LineChart data={trend} margin={{ left: 0, right: 8, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDate} tickLine={false} axisLine={false} />
+                <YAxis width={32} tickLine={false} axisLine={false} allowDecimals={metric.key !== 'accuracy'} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDate} />} />
+                <Line
+                  dataKey={metric.key}
+                  type="monotone"
+                  stroke={`var(--color-${metric.key})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              </LineChart>
+            </ChartContainer>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { Progress } from '@/components/ui/progress';
+
+interface InputLevelMeterProps {
+  stream: MediaStream | null;
+}
+
+// Speech rarely goes above 0.3 RMS, so that is mapped to a full bar
+const LEVEL_GAIN = 300;
+
+export const InputLevelMeter = ({ stream }: InputLevelMeterProps) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream) {
+      setLevel(0);
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+
+    const update = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      setLevel(Math.min(rms * LEVEL_GAIN, 100));
+      frame = requestAnimationFrame(update);
+    };
+    update();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      audioContext.close();
+    };
+  }, [stream]);
+
+  return (
+    <div className="space-y-1">
+      <Progress value={level} className="h-3" aria-label="Microphone input level" />
+      <p className="text-xs text-muted-foreground">
+        {level > 5 ? 'We can hear you.' : 'Say something — the bar should move while you talk.'}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+const CHART_CONFIG: ChartConfig = {
+  model: { label: 'Model', color: 'hsl(var(--primary))' },
+  learner: { label: 'You', color: 'hsl(var(--success))' },
+};
+
+interface IntonationChartProps {
+  // Semitone contours of equal length; learner may be missing until recorded
+  model: number[];
+  learner?: number[];
+}
+
+export const IntonationChart = ({ model, learner }: IntonationChartProps) => {
+  const data = model.map((value, index) => ({
+    position: Math.round((index / Math.max(model.length - 1, 1)) * 100),
+    model: Math.round(value * 10) / 10,
+    learner: learner ? Math.round(learner[index] * 10) / 10 : undefined,
+  }));
+
+  return (
+    <ChartContainer config={CHART_CONFIG} className="aspect-[2/1] w-full">
+      <LineChart data={data} margin={{ left: 0, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="position" tickFormatter={(position) => `${position}%`} tickLine={false} axisLine={false} />
+        <YAxis width={40} tickFormatter={(value) => `${value} st`} tickLine={false} axisLine={false} />
+        <ReferenceLine y={0} strokeDasharray="4 4" />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.position}% through`} />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="model" type="monotone" stroke="var(--color-model)" strokeWidth={2} dot={false} />
+        {learner && <Line dataKey="learner" type="monotone" stroke="var(--color-learner)" strokeWidth={2} dot={false} />}
+      </LineChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,56 @@
+import { PronunciationScore, phonemeToIpa } from '@/utils/phonetics';
+
+interface PronunciationFeedbackProps {
+  result: PronunciationScore;
+}
+
+const phonemeClassName = (score: number) => {
+  if (score === 1) return 'bg-success-glow text-success border-success';
+  if (score > 0) return 'bg-secondary text-secondary-foreground border-secondary-foreground/30';
+  return 'bg-error-glow text-error border-error';
+};
+
+export const PronunciationFeedback = ({ result }: PronunciationFeedbackProps) => {
+  const percentage = Math.round(result.score * 100);
+  const isPerfect = result.alignment.every((phoneme) => phoneme.operation === 'match');
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border bg-card space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Pronunciation</p>
+        <span className="text-sm font-semibold">{percentage}%</span>
+      </div>
+
+      {isPerfect ? (
+        <p className="text-sm text-muted-foreground">
+          Spot on: <span className="font-mono">/{result.expectedIpa}/</span>
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          You said <span className="font-mono text-foreground">/{result.spokenIpa}/</span> — expected{' '}
+          <span className="font-mono text-foreground">/{result.expectedIpa}/</span>
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        {result.alignment.map((phoneme, index) => (
+          <span
+            key={index}
+            title={
+              phoneme.operation === 'insertion'
+                ? `Extra sound /${phonemeToIpa(phoneme.spoken!)}/`
+                : phoneme.operation === 'deletion'
+                  ? `Missing /${phonemeToIpa(phoneme.expected!)}/`
+                  : `/${phonemeToIpa(phoneme.spoken!)}/ for /${phonemeToIpa(phoneme.expected!)}/`
+            }
+            className={`rounded border px-2 py-0.5 font-mono text-sm ${phonemeClassName(phoneme.score)} ${
+              phoneme.operation === 'insertion' ? 'line-through opacity-70' : ''
+            }`}
+          >
+            {phonemeToIpa(phoneme.expected ?? phoneme.spoken!)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+export interface QuizAttempt {
+  id: string;
+  mode: 'spoken' | 'typed';
+  started_at: string;
+  ended_at: string | null;
+  score: number;
+  mistakes: number;
+  outcome: 'passed' | 'failed' | null;
+  levels: { level_number: number; title: string } | null;
+}
+
+export const QUIZ_ATTEMPT_COLUMNS = 'id, mode, started_at, ended_at, score, mistakes, outcome, levels(level_number, title)';
+
+// e.g. "2m 05s"; runs that were never finished have no duration
+export const formatAttemptDuration = (attempt: Pick<QuizAttempt, 'started_at' | 'ended_at'>) => {
+  if (!attempt.ended_at) return '—';
+  const seconds = Math.round((new Date(attempt.ended_at).getTime() - new Date(attempt.started_at).getTime()) / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+export const OutcomeBadge = ({ attempt }: { attempt: Pick<QuizAttempt, 'outcome'> }) => {
+  if (attempt.outcome === 'passed') return <Badge className="bg-success text-success-foreground">Passed</Badge>;
+  if (attempt.outcome === 'failed') return <Badge className="bg-error text-error-foreground">Failed</Badge>;
+  return <Badge variant="outline">Unfinished</Badge>;
+};
+
+interface QuizAttemptsTableProps {
+  attempts: QuizAttempt[];
+  // Adds a button to open the results of each finished run
+  onView?: (attempt: QuizAttempt) => void;
+}
+
+export const QuizAttemptsTable = ({ attempts, onView }: QuizAttemptsTableProps) => {
+  if (attempts.length === 0) {
+    return <p className="p-6 text-center text-muted-foreground">No quiz attempts yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Level</TableHead>
+          <TableHead>Mode</TableHead>
+          <TableHead>Score</TableHead>
+          <TableHead>Mistakes</TableHead>
+          <TableHead>Time</TableHead>
+          <TableHead>When</TableHead>
+          <TableHead className="text-right">Outcome</TableHead>
+          {onView && <TableHead />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {attempts.map((attempt) => (
+          <TableRow key={attempt.id}>
+            <TableCell>
+              {attempt.levels && (
+                <span className="font-medium">
+                  Level {attempt.levels.level_number}: {attempt.levels.title}
+                </span>
+              )}
+            </TableCell>
+            <TableCell className="capitalize">{attempt.mode}</TableCell>
+            <TableCell>{attempt.score}</TableCell>
+            <TableCell>{attempt.mistakes}</TableCell>
+            <TableCell>{formatAttemptDuration(attempt)}</TableCell>
+            <TableCell>{new Date(attempt.started_at).toLocaleString()}</TableCell>
+            <TableCell className="text-right">
+              <OutcomeBadge attempt={attempt} />
+            </TableCell>
+            {onView && (
+              <TableCell className="text-right">
+                {attempt.ended_at && (
+                  <Button variant="outline" size="sm" onClick={() => onView(attempt)}>
+                    Details
+                  </Button>
+                )}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,105 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { AttemptAudioPlayer } from '@/components/AttemptAudioPlayer';
+
+export interface SpeechAttempt {
+  id: string;
+  transcript: string | null;
+  matched_option: string | null;
+  is_correct: boolean | null;
+  audio_path: string | null;
+  response_latency_ms: number | null;
+  utterance_duration_ms: number | null;
+  words_per_minute: number | null;
+  retries: number;
+  input_mode: 'spoken' | 'typed';
+  created_at: string;
+  questions: { question_text: string } | null;
+  levels: { level_number: number; title: string } | null;
+}
+
+export const SPEECH_ATTEMPT_COLUMNS =
+  'id, transcript, matched_option, is_correct, audio_path, response_latency_ms, utterance_duration_ms, words_per_minute, retries, input_mode, created_at, questions:quiz_questions(question_text), levels(level_number, title)';
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Only the measurements that were taken, e.g. "1.2s to answer · 2.4s long"
+const describeFluency = (attempt: SpeechAttempt): string[] =>
+  [
+    attempt.response_latency_ms !== null && `${formatSeconds(attempt.response_latency_ms)} to answer`,
+    attempt.utterance_duration_ms !== null && `${formatSeconds(attempt.utterance_duration_ms)} long`,
+    attempt.words_per_minute !== null && `${Math.round(attempt.words_per_minute)} WPM`,
+    attempt.retries > 0 && `${attempt.retries} ${attempt.retries === 1 ? 'retry' : 'retries'} before`,
+  ].filter((part): part is string => !!part);
+
+interface SpeechAttemptsTableProps {
+  attempts: SpeechAttempt[];
+}
+
+export const SpeechAttemptsTable = ({ attempts }: SpeechAttemptsTableProps) => {
+  if (attempts.length === 0) {
+    return <p className="p-6 text-center text-muted-foreground">No spoken attempts yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Question</TableHead>
+          <TableHead>Heard</TableHead>
+          <TableHead>Answer</TableHead>
+          <TableHead>Fluency</TableHead>
+          <TableHead>When</TableHead>
+          <TableHead className="text-right">Recording</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {attempts.map((attempt) => (
+          <TableRow key={attempt.id}>
+            <TableCell>
+              {attempt.levels && (
+                <p className="text-xs text-muted-foreground">Level {attempt.levels.level_number}</p>
+              )}
+              <p className="font-medium">{attempt.questions?.question_text}</p>
+            </TableCell>
+            <TableCell className="italic">
+              {attempt.transcript ? `"${attempt.transcript}"` : <span className="text-muted-foreground">Nothing recognized</span>}
+              {attempt.input_mode === 'typed' && (
+                <Badge variant="secondary" className="ml-2 not-italic">
+                  Typed
+                </Badge>
+              )}
+            </TableCell>
+            <TableCell>
+              {attempt.matched_option ? (
+                <Badge
+                  variant={attempt.is_correct === null ? 'outline' : 'default'}
+                  className={
+                    attempt.is_correct === true
+                      ? 'bg-success text-success-foreground'
+                      : attempt.is_correct === false
+                        ? 'bg-error text-error-foreground'
+                        : ''
+                  }
+                >
+                  {attempt.matched_option}
+                </Badge>
+              ) : (
+                <span className="text-muted-foreground">—</span>
+              )}
+            </TableCell>
+            <TableCell className="text-xs text-muted-foreground">
+              {describeFluency(attempt).map((part) => (
+                <p key={part}>{part}</p>
+              ))}
+            </TableCell>
+            <TableCell>{new Date(attempt.created_at).toLocaleString()}</TableCell>
+            <TableCell className="text-right">
+              <AttemptAudioPlayer path={attempt.audio_path} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
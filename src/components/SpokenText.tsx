@@ -0,0 +1,24 @@
+import { useSpeechQueue } from '@/hooks/use-speech-queue';
+
+interface SpokenTextProps {
+  text: string;
+}
+
+// Renders text and highlights the word currently being read aloud, karaoke style
+export const SpokenText = ({ text }: SpokenTextProps) => {
+  const { text: spokenText, wordStart, wordEnd } = useSpeechQueue();
+
+  if (spokenText !== text || wordStart < 0) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {text.slice(0, wordStart)}
+      <mark className="rounded bg-primary/20 px-0.5 text-foreground transition-colors">
+        {text.slice(wordStart, wordEnd)}
+      </mark>
+      {text.slice(wordEnd)}
+    </>
+  );
+};
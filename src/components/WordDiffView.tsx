@@ -0,0 +1,65 @@
+import { WordDiff, WordDiffType } from '@/utils/wordDiff';
+
+interface WordDiffViewProps {
+  diff: WordDiff;
+}
+
+const WORD_STYLES: Record<WordDiffType, string> = {
+  match: 'bg-success-glow text-success border-success',
+  missing: 'bg-error-glow text-error border-error border-dashed',
+  substituted: 'bg-accent text-accent-foreground border-accent-foreground',
+  extra: 'bg-secondary text-secondary-foreground border-secondary-foreground/30 line-through opacity-70',
+};
+
+const LEGEND: { type: WordDiffType; label: string }[] = [
+  { type: 'match', label: 'Correct' },
+  { type: 'missing', label: 'Missing' },
+  { type: 'substituted', label: 'Different word' },
+  { type: 'extra', label: 'Extra' },
+];
+
+export const WordDiffView = ({ diff }: WordDiffViewProps) => {
+  return (
+    <div className="p-4 rounded-lg border bg-card space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Accuracy</p>
+        <span className="text-sm font-semibold">{diff.accuracy}%</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {diff.entries.map((entry, index) => (
+          <span
+            key={index}
+            title={
+              entry.type === 'substituted'
+                ? `You said "${entry.spoken}" instead of "${entry.expected}"`
+                : entry.type === 'missing'
+                  ? `You left out "${entry.expected}"`
+                  : entry.type === 'extra'
+                    ? `"${entry.spoken}" is not in the sentence`
+                    : undefined
+            }
+            className={`rounded border px-2 py-0.5 text-base ${WORD_STYLES[entry.type]}`}
+          >
+            {entry.type === 'substituted' ? (
+              <>
+                {entry.expected} <span className="text-xs italic">({entry.spoken})</span>
+              </>
+            ) : (
+              entry.expected ?? entry.spoken
+            )}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {LEGEND.map(({ type, label }) => (
+          <span key={type} className="flex items-center gap-1">
+            <span className={`inline-block h-3 w-3 rounded-sm border ${WORD_STYLES[type]}`} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { isEnglish } from '@/utils/languages';
+
+export const ACCENTS = [
+  { value: 'en-US', label: 'American English' },
+  { value: 'en-GB', label: 'British English' },
+  { value: 'en-AU', label: 'Australian English' },
+  { value: 'en-IN', label: 'Indian English' },
+] as const;
+
+export type Accent = (typeof ACCENTS)[number]['value'];
+
+export interface SpeechSettings {
+  voice_uri: string | null;
+  accent: Accent;
+  rate: number;
+  pitch: number;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voice_uri: null,
+  accent: 'en-US',
+  rate: 0.9,
+  pitch: 1,
+};
+
+interface SpeechSettingsContextType {
+  settings: SpeechSettings;
+  loading: boolean;
+  saveSettings: (settings: SpeechSettings) => Promise<void>;
+}
+
+const SpeechSettingsContext = createContext<SpeechSettingsContextType | undefined>(undefined);
+
+export const SpeechSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setSettings(DEFAULT_SPEECH_SETTINGS);
+      setLoading(false);
+      return;
+    }
+
+    const fetchSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('speech_settings')
+          .select('voice_uri, accent, rate, pitch')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        setSettings(data ? (data as SpeechSettings) : DEFAULT_SPEECH_SETTINGS);
+      } catch (error) {
+        console.error('Error fetching speech settings:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, [user]);
+
+  const saveSettings = async (newSettings: SpeechSettings) => {
+    try {
+      const { error } = await supabase
+        .from('speech_settings')
+        .upsert({ user_id: user!.id, ...newSettings });
+
+      if (error) throw error;
+
+      setSettings(newSettings);
+      toast.success('Speech settings saved');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save speech settings');
+      throw error;
+    }
+  };
+
+  return (
+    <SpeechSettingsContext.Provider value={{ settings, loading, saveSettings }}>
+      {children}
+    </SpeechSettingsContext.Provider>
+  );
+};
+
+export const useSpeechSettings = () => {
+  const context = useContext(SpeechSettingsContext);
+  if (context === undefined) {
+    throw new Error('useSpeechSettings must be used within a SpeechSettingsProvider');
+  }
+  return context;
+};
+
+// Maps stored settings onto speakText options. The accent and voice are
+// English choices, so other course languages use the browser's default voice.
+export const toSpeakOptions = (settings: SpeechSettings, language: string = settings.accent) => {
+  const english = isEnglish(language);
+  return {
+    voiceURI: english ? settings.voice_uri : null,
+    lang: english ? settings.accent : language,
+    rate: settings.rate,
+    pitch: settings.pitch,
+  };
+};
@@ -0,0 +1,6 @@
+import * as React from "react";
+import { speechQueue } from "@/utils/speechQueue";
+
+export function useSpeechQueue() {
+  return React.useSyncExternalStore(speechQueue.subscribe, speechQueue.getState);
+}
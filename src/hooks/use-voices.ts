@@ -0,0 +1,18 @@
+import * as React from "react";
+
+// Browsers populate speechSynthesis voices asynchronously, so re-read the
+// list whenever it reports a change.
+export function useVoices() {
+  const [voices, setVoices] = React.useState<SpeechSynthesisVoice[]>([]);
+
+  React.useEffect(() => {
+    if (!("speechSynthesis" in window)) return;
+
+    const onChange = () => setVoices(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener("voiceschanged", onChange);
+    onChange();
+    return () => window.speechSynthesis.removeEventListener("voiceschanged", onChange);
+  }, []);
+
+  return voices;
+}
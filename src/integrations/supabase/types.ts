@@ -14,29 +14,111 @@ export type Database = {
   }
   public: {
     Tables: {
+      attempt_answers: {
+        Row: {
+          answer: string
+          attempt_id: string
+          correct_answer: string
+          created_at: string
+          id: string
+          input_mode: string
+          is_correct: boolean
+          question_id: string
+          similarity: number | null
+          transcript: string | null
+        }
+        Insert: {
+          answer: string
+          attempt_id: string
+          correct_answer: string
+          created_at?: string
+          id?: string
+          input_mode: string
+          is_correct: boolean
+          question_id: string
+          similarity?: number | null
+          transcript?: string | null
+        }
+        Update: {
+          answer?: string
+          attempt_id?: string
+          correct_answer?: string
+          created_at?: string
+          id?: string
+          input_mode?: string
+          is_correct?: boolean
+          question_id?: string
+          similarity?: number | null
+          transcript?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attempt_answers_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attempt_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attempt_answers_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       levels: {
         Row: {
+          confirm_threshold: number
           created_at: string
           id: string
           image_url: string
+          language: string
           level_number: number
+          match_threshold: number
+          max_mistakes: number | null
+          pass_mark: number
+          question_count: number | null
           theme: string
+          time_limit_seconds: number | null
           title: string
         }
         Insert: {
+          confirm_threshold?: number
           created_at?: string
           id?: string
           image_url: string
+          language?: string
           level_number: number
+          match_threshold?: number
+          max_mistakes?: number | null
+          pass_mark?: number
+          question_count?: number | null
           theme: string
+          time_limit_seconds?: number | null
           title: string
         }
         Update: {
+          confirm_threshold?: number
           created_at?: string
           id?: string
           image_url?: string
+          language?: string
           level_number?: number
+          match_threshold?: number
+          max_mistakes?: number | null
+          pass_mark?: number
+          question_count?: number | null
           theme?: string
+          time_limit_seconds?: number | null
           title?: string
         }
         Relationships: []
@@ -94,29 +176,44 @@ export type Database = {
       }
       questions: {
         Row: {
+          accepted_variants: Json
+          audio_url: string | null
+          confirm_threshold: number | null
           correct_answer: string
           created_at: string
           id: string
           image_url: string
           level_id: string
+          match_threshold: number | null
+          option_audio: Json
           options: string[]
           question_text: string
         }
         Insert: {
+          accepted_variants?: Json
+          audio_url?: string | null
+          confirm_threshold?: number | null
           correct_answer: string
           created_at?: string
           id?: string
           image_url: string
           level_id: string
+          match_threshold?: number | null
+          option_audio?: Json
           options: string[]
           question_text: string
         }
         Update: {
+          accepted_variants?: Json
+          audio_url?: string | null
+          confirm_threshold?: number | null
           correct_answer?: string
           created_at?: string
           id?: string
           image_url?: string
           level_id?: string
+          match_threshold?: number | null
+          option_audio?: Json
           options?: string[]
           question_text?: string
         }
@@ -130,15 +227,279 @@ export type Database = {
           },
         ]
       }
+      quiz_attempts: {
+        Row: {
+          ended_at: string | null
+          id: string
+          level_id: string
+          mistakes: number
+          mode: string
+          outcome: string | null
+          question_ids: string[]
+          score: number
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          ended_at?: string | null
+          id?: string
+          level_id: string
+          mistakes?: number
+          mode?: string
+          outcome?: string | null
+          question_ids?: string[]
+          score?: number
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          ended_at?: string | null
+          id?: string
+          level_id?: string
+          mistakes?: number
+          mode?: string
+          outcome?: string | null
+          question_ids?: string[]
+          score?: number
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shadowing_results: {
+        Row: {
+          accuracy: number
+          created_at: string
+          id: string
+          sentence_id: string
+          transcript: string
+          user_id: string
+        }
+        Insert: {
+          accuracy: number
+          created_at?: string
+          id?: string
+          sentence_id: string
+          transcript: string
+          user_id: string
+        }
+        Update: {
+          accuracy?: number
+          created_at?: string
+          id?: string
+          sentence_id?: string
+          transcript?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shadowing_results_sentence_id_fkey"
+            columns: ["sentence_id"]
+            isOneToOne: false
+            referencedRelation: "shadowing_sentences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shadowing_sentences: {
+        Row: {
+          created_at: string
+          id: string
+          level_id: string
+          position: number
+          sentence: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          level_id: string
+          position?: number
+          sentence: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          level_id?: string
+          position?: number
+          sentence?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shadowing_sentences_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      speech_attempts: {
+        Row: {
+          audio_path: string | null
+          created_at: string
+          id: string
+          input_mode: string
+          is_correct: boolean | null
+          level_id: string
+          matched_option: string | null
+          question_id: string
+          response_latency_ms: number | null
+          retries: number
+          transcript: string | null
+          user_id: string
+          utterance_duration_ms: number | null
+          words_per_minute: number | null
+        }
+        Insert: {
+          audio_path?: string | null
+          created_at?: string
+          id?: string
+          input_mode?: string
+          is_correct?: boolean | null
+          level_id: string
+          matched_option?: string | null
+          question_id: string
+          response_latency_ms?: number | null
+          retries?: number
+          transcript?: string | null
+          user_id: string
+          utterance_duration_ms?: number | null
+          words_per_minute?: number | null
+        }
+        Update: {
+          audio_path?: string | null
+          created_at?: string
+          id?: string
+          input_mode?: string
+          is_correct?: boolean | null
+          level_id?: string
+          matched_option?: string | null
+          question_id?: string
+          response_latency_ms?: number | null
+          retries?: number
+          transcript?: string | null
+          user_id?: string
+          utterance_duration_ms?: number | null
+          words_per_minute?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "speech_attempts_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "speech_attempts_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "speech_attempts_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      speech_settings: {
+        Row: {
+          accent: string
+          created_at: string
+          pitch: number
+          rate: number
+          updated_at: string
+          user_id: string
+          voice_uri: string | null
+        }
+        Insert: {
+          accent?: string
+          created_at?: string
+          pitch?: number
+          rate?: number
+          updated_at?: string
+          user_id: string
+          voice_uri?: string | null
+        }
+        Update: {
+          accent?: string
+          created_at?: string
+          pitch?: number
+          rate?: number
+          updated_at?: string
+          user_id?: string
+          voice_uri?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      quiz_questions: {
+        Row: {
+          audio_url: string | null
+          confirm_threshold: number | null
+          created_at: string | null
+          id: string | null
+          image_url: string | null
+          level_id: string | null
+          match_threshold: number | null
+          option_audio: Json | null
+          options: string[] | null
+          question_text: string | null
+          variant_phrasings: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "questions_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      complete_quiz_attempt: {
+        Args: { _attempt_id: string }
+        Returns: {
+          mistakes: number
+          next_level_number: number | null
+          outcome: string
+          score: number
+        }[]
+      }
       is_admin: {
         Args: { user_id: string }
         Returns: boolean
       }
+      submit_answer: {
+        Args: {
+          _answer: string
+          _attempt_id: string
+          _input_mode?: string
+          _question_id: string
+          _similarity?: number
+          _transcript?: string
+        }
+        Returns: {
+          answer: string
+          correct_answer: string
+          is_correct: boolean
+        }[]
+      }
     }
     Enums: {
       app_role: "student" | "admin"
@@ -0,0 +1,342 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { toSpeakOptions, useSpeechSettings } from '@/contexts/SpeechSettingsContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, ArrowRight, Mic, Square, Volume2, AudioLines, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { IntonationChart } from '@/components/IntonationChart';
+import { SpokenText } from '@/components/SpokenText';
+import { speechQueue } from '@/utils/speechQueue';
+import { speakText } from '@/utils/speechRecognition';
+import { createAudioRecorder, isAudioRecordingSupported } from '@/utils/audioRecorder';
+import { decodeAudio } from '@/utils/audioClip';
+import { compareIntonation, extractPitchContour, IntonationComparison, normalizeContour, PitchPoint } from '@/utils/pitch';
+import { SENTENCE_MIN_WORDS } from '@/utils/fluency';
+import { toCourseLanguage } from '@/utils/languages';
+
+interface Level {
+  id: string;
+  level_number: number;
+  title: string;
+  language: string;
+}
+
+// A sentence to practise, with a native recording when one was attached
+interface PracticeSentence {
+  id: string;
+  text: string;
+  audioUrl: string | null;
+}
+
+const isSentence = (text: string) => text.trim().split(/\s+/).length >= SENTENCE_MIN_WORDS;
+
+export default function IntonationPage() {
+  const { levelNumber } = useParams();
+  const { settings: speechSettings } = useSpeechSettings();
+  const navigate = useNavigate();
+
+  const [level, setLevel] = useState<Level | null>(null);
+  const [sentences, setSentences] = useState<PracticeSentence[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [modelContours, setModelContours] = useState<Record<string, PitchPoint[]>>({});
+  const [comparison, setComparison] = useState<IntonationComparison | null>(null);
+  const [learnerAudioUrl, setLearnerAudioUrl] = useState<string | null>(null);
+  const [capturingModel, setCapturingModel] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const recorderRef = useRef(createAudioRecorder());
+  const language = toCourseLanguage(level?.language);
+
+  useEffect(() => {
+    if (!isAudioRecordingSupported()) {
+      toast.error('Audio recording is not supported in your browser.');
+    }
+
+    const recorder = recorderRef.current;
+
+    fetchSentences();
+
+    return () => {
+      recorder.stop();
+      speechQueue.cancel();
+    };
+  }, [levelNumber]);
+
+  useEffect(() => {
+    const sentence = sentences[currentIndex];
+    if (sentence?.audioUrl && !modelContours[sentence.id]) {
+      loadRecordedModel(sentence);
+    }
+  }, [currentIndex, sentences]);
+
+  useEffect(() => {
+    return () => {
+      if (learnerAudioUrl) URL.revokeObjectURL(learnerAudioUrl);
+    };
+  }, [learnerAudioUrl]);
+
+  const fetchSentences = async () => {
+    try {
+      const { data: levelData, error: levelError } = await supabase
+        .from('levels')
+        .select('id, level_number, title, language')
+        .eq('level_number', parseInt(levelNumber!))
+        .single();
+
+      if (levelError) throw levelError;
+      setLevel(levelData);
+
+      const [questionsRes, shadowingRes] = await Promise.all([
+        supabase.from('quiz_questions').select('id, question_text, audio_url').eq('level_id', levelData.id),
+        supabase.from('shadowing_sentences').select('id, sentence').eq('level_id', levelData.id).order('position'),
+      ]);
+
+      if (questionsRes.error) throw questionsRes.error;
+      if (shadowingRes.error) throw shadowingRes.error;
+
+      // The quiz questions themselves are good question-intonation practice
+      const practice = [
+        ...questionsRes.data.map((question) => ({
+          id: question.id,
+          text: question.question_text,
+          audioUrl: question.audio_url,
+        })),
+        ...shadowingRes.data.map((sentence) => ({ id: sentence.id, text: sentence.sentence, audioUrl: null })),
+      ].filter((sentence) => isSentence(sentence.text));
+
+      if (practice.length === 0) {
+        toast.error('This level has no sentences to practise yet.');
+        navigate('/levels');
+        return;
+      }
+      setSentences(practice);
+    } catch (error) {
+      toast.error((error as Error).message);
+      navigate('/levels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const storeModelContour = async (sentence: PracticeSentence, audio: Blob) => {
+    const contour = extractPitchContour(await decodeAudio(audio));
+    if (normalizeContour(contour).length === 0) {
+      throw new Error('No voice could be detected in the model audio.');
+    }
+    setModelContours((previous) => ({ ...previous, [sentence.id]: contour }));
+  };
+
+  const loadRecordedModel = async (sentence: PracticeSentence) => {
+    try {
+      const response = await fetch(sentence.audioUrl!);
+      if (!response.ok) throw new Error(`Could not load the recording (status ${response.status})`);
+      await storeModelContour(sentence, await response.blob());
+    } catch (error) {
+      console.error('Error analysing model audio:', error);
+      toast.error((error as Error).message);
+    }
+  };
+
+  // Browsers give no access to synthesized audio, so the voice is recorded
+  // through the microphone while it plays from the speakers
+  const captureSynthesizedModel = async (sentence: PracticeSentence) => {
+    const recorder = createAudioRecorder();
+    setCapturingModel(true);
+
+    try {
+      await recorder.start();
+      await speakText(sentence.text, { ...toSpeakOptions(speechSettings, language), interrupt: true });
+      const audio = await recorder.stop();
+      if (!audio) throw new Error('Nothing was captured from the microphone.');
+      await storeModelContour(sentence, audio);
+    } catch (error) {
+      console.error('Error capturing model voice:', error);
+      toast.error((error as Error).message);
+    } finally {
+      await recorder.stop();
+      setCapturingModel(false);
+    }
+  };
+
+  const playModel = async () => {
+    const sentence = sentences[currentIndex];
+    try {
+      await speakText(sentence.text, {
+        ...toSpeakOptions(speechSettings, language),
+        audioUrl: sentence.audioUrl,
+        interrupt: true,
+      });
+    } catch (error) {
+      console.error('Error playing model:', error);
+    }
+  };
+
+  const startRecording = async () => {
+    speechQueue.cancel();
+    try {
+      await recorderRef.current.start();
+      setRecording(true);
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      toast.error('Could not access the microphone');
+    }
+  };
+
+  const stopRecording = async () => {
+    setRecording(false);
+    const sentence = sentences[currentIndex];
+    const audio = await recorderRef.current.stop();
+    if (!audio) return;
+
+    setLearnerAudioUrl(URL.createObjectURL(audio));
+
+    try {
+      const learnerContour = extractPitchContour(await decodeAudio(audio));
+      const result = compareIntonation(modelContours[sentence.id], learnerContour);
+      if (!result) {
+        toast.error('No voice was detected. Please speak a little louder.');
+        return;
+      }
+      setComparison(result);
+    } catch (error) {
+      console.error('Error analysing recording:', error);
+      toast.error((error as Error).message);
+    }
+  };
+
+  const goToSentence = (index: number) => {
+    speechQueue.cancel();
+    // A take of the previous sentence must not be scored against this one
+    if (recording) {
+      setRecording(false);
+      recorderRef.current.stop();
+    }
+    setCurrentIndex(index);
+    setComparison(null);
+    setLearnerAudioUrl(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  const currentSentence = sentences[currentIndex];
+  const modelContour = currentSentence ? modelContours[currentSentence.id] : undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card shadow-soft">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between mb-4">
+            <Button variant="ghost" onClick={() => navigate('/levels')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Levels
+            </Button>
+            {comparison && <Badge variant="outline">Intonation match: {comparison.score}%</Badge>}
+          </div>
+          <Progress value={((currentIndex + 1) / sentences.length) * 100} className="h-2" />
+          <p className="text-sm text-muted-foreground mt-2 text-center">
+            Sentence {currentIndex + 1} of {sentences.length}
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        {level && (
+          <h1 className="text-3xl font-bold mb-6">
+            Intonation — Level {level.level_number}: {level.title}
+          </h1>
+        )}
+
+        {currentSentence && (
+          <Card className="shadow-large">
+            <CardContent className="p-8 space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Listen to how the voice rises and falls, then say the sentence with the same melody.
+              </p>
+
+              <div className="flex items-start gap-4">
+                <Button variant="outline" size="icon" onClick={playModel} className="flex-shrink-0">
+                  <Volume2 className="h-5 w-5" />
+                </Button>
+                <h2 className="text-2xl font-bold flex-grow">
+                  <SpokenText text={currentSentence.text} />
+                </h2>
+              </div>
+
+              {modelContour ? (
+                <IntonationChart
+                  model={comparison?.model ?? normalizeContour(modelContour)}
+                  learner={comparison?.learner}
+                />
+              ) : currentSentence.audioUrl ? (
+                <p className="text-sm text-muted-foreground text-center">Analysing the recording...</p>
+              ) : (
+                <div className="p-4 rounded-lg bg-accent text-accent-foreground space-y-3">
+                  <div className="flex items-center gap-2">
+                    <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                    <p>
+                      This sentence has no recording, so the synthetic voice is captured through your microphone.
+                      Play it through your speakers, not headphones.
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => captureSynthesizedModel(currentSentence)}
+                    disabled={capturingModel}
+                  >
+                    <AudioLines className="h-4 w-4 mr-2" />
+                    {capturingModel ? 'Capturing...' : 'Capture Model Voice'}
+                  </Button>
+                </div>
+              )}
+
+              <Button
+                onClick={recording ? stopRecording : startRecording}
+                disabled={!modelContour || capturingModel}
+                className="w-full py-6 text-lg bg-gradient-primary hover:opacity-90"
+                size="lg"
+              >
+                {recording ? (
+                  <>
+                    <Square className="h-6 w-6 mr-2" />
+                    Stop
+                  </>
+                ) : (
+                  <>
+                    <Mic className="h-6 w-6 mr-2" />
+                    {comparison ? 'Try Again 🎙️' : 'Record Yourself 🎙️'}
+                  </>
+                )}
+              </Button>
+
+              {learnerAudioUrl && <audio controls src={learnerAudioUrl} className="w-full" />}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => goToSentence(currentIndex - 1)} disabled={currentIndex === 0}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Previous
+                </Button>
+                <Button
+                  onClick={() => goToSentence(currentIndex + 1)}
+                  disabled={currentIndex === sentences.length - 1}
+                >
+                  Next
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
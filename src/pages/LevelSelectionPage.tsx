@@ -5,17 +5,23 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Lock, CheckCircle2, Play, LogOut } from 'lucide-react';
+import { Lock, CheckCircle2, Play, LogOut, BarChart3, Settings, Repeat, AudioLines } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
+import { CourseLanguage, LANGUAGES, toCourseLanguage } from '@/utils/languages';
+import { describeQuizRules, QuizRules } from '@/utils/quizRules';
 
-interface Level {
+interface Level extends QuizRules {
   id: string;
   level_number: number;
   title: string;
   theme: string;
   image_url: string;
+  language: string;
 }
 
+const COURSE_KEY = 'course.language';
+
 interface Progress {
   level_number: number;
   status: 'locked' | 'unlocked' | 'completed';
@@ -28,6 +34,7 @@ export default function LevelSelectionPage() {
   const [levels, setLevels] = useState<Level[]>([]);
   const [progress, setProgress] = useState<Progress[]>([]);
   const [loading, setLoading] = useState(true);
+  const [course, setCourse] = useState<CourseLanguage>(() => toCourseLanguage(localStorage.getItem(COURSE_KEY)));
 
   useEffect(() => {
     fetchData();
@@ -52,6 +59,12 @@ export default function LevelSelectionPage() {
     }
   };
 
+  const handleCourseChange = (value: string) => {
+    const language = toCourseLanguage(value);
+    localStorage.setItem(COURSE_KEY, language);
+    setCourse(language);
+  };
+
   const getLevelProgress = (levelNumber: number) => {
     return progress.find((p) => p.level_number === levelNumber);
   };
@@ -75,15 +88,30 @@ export default function LevelSelectionPage() {
     );
   }
 
+  // Only offer courses that have levels to play
+  const courses = LANGUAGES.filter((language) => levels.some((level) => level.language === language.code));
+  const activeCourse = courses.some((language) => language.code === course) ? course : courses[0]?.code ?? course;
+  const courseLevels = levels.filter((level) => level.language === activeCourse);
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card shadow-soft">
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
           <h1 className="text-2xl font-bold text-primary">English Quiz Master</h1>
-          <Button variant="outline" onClick={signOut}>
-            <LogOut className="h-4 w-4 mr-2" />
-            Sign Out
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate('/results')}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              My Results
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/settings')}>
+              <Settings className="h-4 w-4 mr-2" />
+              Settings
+            </Button>
+            <Button variant="outline" onClick={signOut}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -91,10 +119,21 @@ export default function LevelSelectionPage() {
         <div className="mb-8 text-center">
           <h2 className="text-3xl font-bold mb-2">Choose Your Level</h2>
           <p className="text-muted-foreground">Select a level to start your voice quiz</p>
+          {courses.length > 1 && (
+            <Tabs value={activeCourse} onValueChange={handleCourseChange} className="mt-6">
+              <TabsList>
+                {courses.map((language) => (
+                  <TabsTrigger key={language.code} value={language.code}>
+                    {language.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          )}
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl mx-auto">
-          {levels.map((level) => {
+          {courseLevels.map((level) => {
             const levelProgress = getLevelProgress(level.level_number);
             const isLocked = levelProgress?.status === 'locked';
             const isCompleted = levelProgress?.status === 'completed';
@@ -141,7 +180,14 @@ export default function LevelSelectionPage() {
                 </CardHeader>
 
                 <CardContent>
-                  <p className="text-sm text-muted-foreground mb-4">{level.theme}</p>
+                  <p className="text-sm text-muted-foreground mb-3">{level.theme}</p>
+                  <div className="flex flex-wrap gap-1 mb-4">
+                    {describeQuizRules(level).map((rule) => (
+                      <Badge key={rule} variant="outline" className="font-normal">
+                        {rule}
+                      </Badge>
+                    ))}
+                  </div>
                   <Button className="w-full" disabled={isLocked}>
                     {isLocked ? (
                       <>
@@ -155,6 +201,32 @@ export default function LevelSelectionPage() {
                       </>
                     )}
                   </Button>
+                  {!isLocked && (
+                    <Button
+                      variant="outline"
+                      className="w-full mt-2"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        navigate(`/shadowing/${level.level_number}`);
+                      }}
+                    >
+                      <Repeat className="h-4 w-4 mr-2" />
+                      Shadowing Drill
+                    </Button>
+                  )}
+                  {!isLocked && (
+                    <Button
+                      variant="outline"
+                      className="w-full mt-2"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        navigate(`/intonation/${level.level_number}`);
+                      }}
+                    >
+                      <AudioLines className="h-4 w-4 mr-2" />
+                      Intonation Practice
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             );
@@ -0,0 +1,261 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { compareTwoStrings } from 'string-similarity';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, AlertCircle, CheckCircle2, Mic, Square } from 'lucide-react';
+import { InputLevelMeter } from '@/components/InputLevelMeter';
+import { createAudioRecorder } from '@/utils/audioRecorder';
+import {
+  getMicrophoneConstraints,
+  getPreferredMicrophone,
+  listMicrophones,
+  setPreferredMicrophone,
+} from '@/utils/microphone';
+import { getRecognitionErrorGuidance, toRecognitionError } from '@/utils/recognitionErrors';
+import {
+  createSpeechRecognition,
+  getSpeechEngine,
+  isSpeechRecognitionSupported,
+  SpeechRecognizer,
+} from '@/utils/speechRecognition';
+import { normalizeSpeech } from '@/utils/textNormalization';
+
+const DEFAULT_DEVICE = 'default';
+const TEST_PHRASE = 'Could I have the menu, please?';
+const TEST_RECORDING_MS = 3000;
+// Similarity needed for the recognition test to count as a pass
+const PASS_SIMILARITY = 0.7;
+
+interface RecognitionTest {
+  transcript: string;
+  similarity: number;
+}
+
+export default function MicCheckPage() {
+  const navigate = useNavigate();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(getPreferredMicrophone());
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [errorCode, setErrorCode] = useState<string | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [recognitionTest, setRecognitionTest] = useState<RecognitionTest | null>(null);
+  const recorderRef = useRef(createAudioRecorder());
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let openedStream: MediaStream | null = null;
+
+    const openMicrophone = async () => {
+      try {
+        const nextStream = await navigator.mediaDevices.getUserMedia({ audio: getMicrophoneConstraints(deviceId) });
+        // The device changed (or the page closed) while the browser was opening this one
+        if (cancelled) {
+          nextStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        openedStream = nextStream;
+        setStream(openedStream);
+        setErrorCode(null);
+        const microphones = await listMicrophones();
+        if (!cancelled) setDevices(microphones);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error opening microphone:', error);
+        setStream(null);
+        setErrorCode(toRecognitionError(error));
+      }
+    };
+
+    openMicrophone();
+
+    return () => {
+      cancelled = true;
+      openedStream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [deviceId]);
+
+  useEffect(() => {
+    return () => recognitionRef.current?.stop();
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (recordingUrl) URL.revokeObjectURL(recordingUrl);
+    };
+  }, [recordingUrl]);
+
+  const handleDeviceChange = (value: string) => {
+    const id = value === DEFAULT_DEVICE ? null : value;
+    setPreferredMicrophone(id);
+    setDeviceId(id);
+  };
+
+  const handleTestRecording = async () => {
+    setRecording(true);
+    setRecordingUrl(null);
+
+    try {
+      await recorderRef.current.start();
+      await new Promise((resolve) => setTimeout(resolve, TEST_RECORDING_MS));
+      const audio = await recorderRef.current.stop();
+      if (audio) setRecordingUrl(URL.createObjectURL(audio));
+    } catch (error) {
+      console.error('Error recording test audio:', error);
+      setErrorCode(toRecognitionError(error));
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  const handleRecognitionTest = () => {
+    const recognition = createSpeechRecognition();
+    if (!recognition) {
+      setErrorCode('service-not-allowed');
+      return;
+    }
+
+    setTesting(true);
+    setRecognitionTest(null);
+    setErrorCode(null);
+
+    recognition.onresult = (result) => {
+      if (!result.isFinal) return;
+      setRecognitionTest({
+        transcript: result.transcript,
+        similarity: compareTwoStrings(normalizeSpeech(result.transcript), normalizeSpeech(TEST_PHRASE)),
+      });
+    };
+    recognition.onerror = (event) => {
+      console.error('Speech recognition error:', event.error);
+      setErrorCode(event.error);
+    };
+    recognition.onend = () => {
+      if (recognitionRef.current === recognition) recognitionRef.current = null;
+      setTesting(false);
+    };
+
+    recognitionRef.current = recognition;
+    recognition.start();
+  };
+
+  const guidance = errorCode ? getRecognitionErrorGuidance(errorCode) : null;
+  const selectedDevice = deviceId && devices.some((device) => device.deviceId === deviceId) ? deviceId : DEFAULT_DEVICE;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card shadow-soft">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-bold text-primary">Microphone Check</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        {guidance && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{guidance.title}</AlertTitle>
+            <AlertDescription>{guidance.description}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Microphone</CardTitle>
+            <CardDescription>Pick your microphone and check that the level moves when you speak</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Input device</Label>
+              <Select value={selectedDevice} onValueChange={handleDeviceChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+                  {devices
+                    .filter((device) => device.deviceId && device.deviceId !== DEFAULT_DEVICE)
+                    .map((device, index) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label || `Microphone ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {getSpeechEngine() === 'web-speech' && (
+                <p className="text-xs text-muted-foreground">
+                  Browser speech recognition always listens on the system default microphone; the choice here
+                  applies to recordings.
+                </p>
+              )}
+            </div>
+            <InputLevelMeter stream={stream} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Test recording</CardTitle>
+            <CardDescription>Record a few seconds and listen back to how you sound</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Button variant="outline" onClick={handleTestRecording} disabled={recording}>
+              {recording ? <Square className="h-4 w-4 mr-2" /> : <Mic className="h-4 w-4 mr-2" />}
+              {recording ? 'Recording...' : 'Record 3 seconds'}
+            </Button>
+            {recordingUrl && <audio src={recordingUrl} controls className="w-full" />}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Recognition test</CardTitle>
+            <CardDescription>Press the button and say this phrase</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-xl font-semibold">"{TEST_PHRASE}"</p>
+            <Button
+              onClick={handleRecognitionTest}
+              disabled={testing || !isSpeechRecognitionSupported()}
+              className="bg-gradient-primary hover:opacity-90"
+            >
+              <Mic className={`h-4 w-4 mr-2 ${testing ? 'animate-pulse' : ''}`} />
+              {testing ? 'Listening...' : 'Start test'}
+            </Button>
+            {recognitionTest && (
+              <div
+                className={`p-4 rounded-lg flex items-center gap-2 ${
+                  recognitionTest.similarity >= PASS_SIMILARITY
+                    ? 'bg-success text-success-foreground'
+                    : 'bg-accent text-accent-foreground'
+                }`}
+              >
+                {recognitionTest.similarity >= PASS_SIMILARITY ? (
+                  <CheckCircle2 className="h-5 w-5 flex-shrink-0" />
+                ) : (
+                  <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                )}
+                <p>
+                  We heard "{recognitionTest.transcript}" ({Math.round(recognitionTest.similarity * 100)}% match).
+                  {recognitionTest.similarity >= PASS_SIMILARITY
+                    ? ' Speech recognition is working.'
+                    : ' Try speaking more clearly or moving closer to the microphone.'}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
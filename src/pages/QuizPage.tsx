@@ -1,67 +1,227 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { toSpeakOptions, useSpeechSettings } from '@/contexts/SpeechSettingsContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Mic, Volume2, ArrowLeft, CheckCircle2, XCircle, AlertCircle } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Mic,
+  Volume2,
+  ArrowLeft,
+  CheckCircle2,
+  XCircle,
+  AlertCircle,
+  Settings2,
+  Pause,
+  Play,
+  Keyboard,
+  Send,
+  Timer,
+  Loader2,
+} from 'lucide-react';
 import { toast } from 'sonner';
-import { createSpeechRecognition, speakText, findBestMatch, isSpeechRecognitionSupported } from '@/utils/speechRecognition';
+import {
+  createSpeechRecognition,
+  speakText,
+  findBestAnswer,
+  parseConfirmation,
+  getConfirmationWords,
+  isSpeechRecognitionSupported,
+  MatchResult,
+  PhrasingGroups,
+  RecognitionResult,
+  SpeakOptions,
+  SpeechRecognizer,
+} from '@/utils/speechRecognition';
+import { scorePronunciation, PronunciationScore } from '@/utils/phonetics';
+import { PronunciationFeedback } from '@/components/PronunciationFeedback';
+import { SpokenText } from '@/components/SpokenText';
+import { useSpeechQueue } from '@/hooks/use-speech-queue';
+import { speechQueue } from '@/utils/speechQueue';
+import { OptionAudio } from '@/utils/questionAudio';
+import { createAudioRecorder } from '@/utils/audioRecorder';
+import { InputMode, saveSpeechAttempt } from '@/utils/speechAttempts';
+import { findSpellingFixes, SpellingFix } from '@/utils/wordDiff';
+import {
+  AnswerDetails,
+  AnswerResult,
+  CLICKED_ANSWER,
+  completeQuizAttempt,
+  startQuizAttempt,
+  submitAnswer,
+} from '@/utils/quizAttempts';
+import { formatCountdown, QuizRules } from '@/utils/quizRules';
+import { getCommandExamples, getCommandPhrases, parseVoiceCommand, VoiceCommand } from '@/utils/voiceCommands';
+import { isEnglish, toCourseLanguage } from '@/utils/languages';
+import { getNormalizationPipeline } from '@/utils/textNormalization';
+import { getRecognitionErrorGuidance } from '@/utils/recognitionErrors';
+import { FluencyTimings, measureFluency } from '@/utils/fluency';
 
 interface Question {
   id: string;
   question_text: string;
   image_url: string;
   options: string[];
-  correct_answer: string;
+  match_threshold: number | null;
+  confirm_threshold: number | null;
+  audio_url: string | null;
+  option_audio: OptionAudio;
+  variant_phrasings: PhrasingGroups;
 }
 
-interface Level {
+// How long continuous listening waits without hearing anything before giving up
+const SILENCE_TIMEOUT_MS = 8000;
+
+const LIVE_TRANSCRIPT_KEY = 'speech.liveTranscript';
+const CONTINUOUS_LISTENING_KEY = 'speech.continuousListening';
+
+// Each "slower" command takes this much off the speaking rate, down to MIN_SPEECH_RATE
+const SLOWER_STEP = 0.2;
+const MIN_SPEECH_RATE = 0.5;
+
+interface PendingAttempt {
+  questionId: string;
+  transcript: string | null;
+  matchedOption: string | null;
+  isCorrect: boolean | null;
+  timings: FluencyTimings;
+  retries: number;
+  inputMode: InputMode;
+  // Server-side grading still in flight when the session ends
+  grading: Promise<void> | null;
+}
+
+interface Level extends QuizRules {
   id: string;
   level_number: number;
   title: string;
   image_url: string;
+  match_threshold: number;
+  confirm_threshold: number;
+  language: string;
 }
 
 export default function QuizPage() {
   const { levelNumber } = useParams();
   const { user } = useAuth();
+  const { settings: speechSettings } = useSpeechSettings();
+  const speech = useSpeechQueue();
   const navigate = useNavigate();
   
   const [level, setLevel] = useState<Level | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [quizAttemptId, setQuizAttemptId] = useState<string | null>(null);
+  // When the level's time limit runs out, and the whole seconds left until then
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [score, setScore] = useState(0);
   const [mistakes, setMistakes] = useState(0);
   const [isListening, setIsListening] = useState(false);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  // Only known once an answer has been submitted
+  const [correctAnswer, setCorrectAnswer] = useState<string | null>(null);
   const [feedbackText, setFeedbackText] = useState('');
+  const [pronunciation, setPronunciation] = useState<PronunciationScore | null>(null);
+  const [pendingMatch, setPendingMatch] = useState<MatchResult | null>(null);
   const [loading, setLoading] = useState(true);
-  const [recognition, setRecognition] = useState<any>(null);
+  const [recognition, setRecognition] = useState<SpeechRecognizer | null>(null);
+  const [interimText, setInterimText] = useState('');
+  const [recognitionError, setRecognitionError] = useState<string | null>(null);
+  const [slowdown, setSlowdown] = useState(0);
+  // Browsers without speech recognition start in typed-answer mode
+  const [typing, setTyping] = useState(() => !isSpeechRecognitionSupported());
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [spellingFixes, setSpellingFixes] = useState<SpellingFix[]>([]);
+  const [liveTranscript, setLiveTranscript] = useState(() => localStorage.getItem(LIVE_TRANSCRIPT_KEY) !== 'false');
+  const [continuousListening, setContinuousListening] = useState(
+    () => localStorage.getItem(CONTINUOUS_LISTENING_KEY) === 'true'
+  );
+  const recorderRef = useRef(createAudioRecorder());
+  const attemptRef = useRef<PendingAttempt | null>(null);
+  // When the question was last read out, and how many times it has been attempted
+  const promptEndedAtRef = useRef<number | null>(null);
+  const retriesRef = useRef(0);
+  const silenceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Recognition handlers outlive a render in continuous mode, so they call
+  // through this ref to always see the latest state
+  const speechResultRef = useRef<(result: RecognitionResult) => void>(() => undefined);
+  const endQuizRef = useRef<() => void>(() => undefined);
+  // The last answer, the mistake limit and the clock can all end the quiz
+  const endedRef = useRef(false);
+  const language = toCourseLanguage(level?.language);
+  // Everything that may sensibly be said during this question: its answers,
+  // confirmations and quiz commands
+  const grammar = useMemo(() => {
+    const question = questions[currentQuestionIndex];
+    if (!question) return [];
+    return [
+      ...question.options,
+      ...question.variant_phrasings.flat(),
+      ...getConfirmationWords(language),
+      ...getCommandPhrases(language),
+    ];
+  }, [questions, currentQuestionIndex, language]);
 
   useEffect(() => {
     if (!isSpeechRecognitionSupported()) {
-      toast.error('Speech recognition is not supported in your browser. Please use Chrome or Edge.');
+      toast.info('Speech recognition is not available in this browser, so you can type your answers instead.');
     }
-    
-    const speechRecognition = createSpeechRecognition();
-    setRecognition(speechRecognition);
-    
+
+    const recorder = recorderRef.current;
+
     fetchQuizData();
 
+    return () => {
+      recorder.stop();
+      speechQueue.cancel();
+    };
+  }, [levelNumber]);
+
+  useEffect(() => {
+    const speechRecognition = createSpeechRecognition({
+      lang: language,
+      interimResults: liveTranscript,
+      continuous: continuousListening,
+      grammar,
+    });
+    setRecognition(speechRecognition);
+
     return () => {
       if (speechRecognition) {
         speechRecognition.stop();
       }
-      window.speechSynthesis.cancel();
     };
-  }, [levelNumber]);
+  }, [language, liveTranscript, continuousListening, grammar]);
+
+  useEffect(() => {
+    if (deadline === null) return;
+
+    const timer = setInterval(() => {
+      const remaining = Math.max(Math.ceil((deadline - Date.now()) / 1000), 0);
+      setSecondsLeft(remaining);
+
+      if (remaining === 0) {
+        clearInterval(timer);
+        toast.error("Time's up! Quiz ended.");
+        endQuizRef.current();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [deadline]);
 
   useEffect(() => {
     if (questions.length > 0 && currentQuestionIndex < questions.length) {
+      promptEndedAtRef.current = null;
+      retriesRef.current = 0;
       speakQuestion();
     }
   }, [currentQuestionIndex, questions]);
@@ -78,12 +238,22 @@ export default function QuizPage() {
       setLevel(levelData);
 
       const { data: questionsData, error: questionsError } = await supabase
-        .from('questions')
+        .from('quiz_questions')
         .select('*')
         .eq('level_id', levelData.id);
 
       if (questionsError) throw questionsError;
-      setQuestions(questionsData);
+
+      // The database draws the questions for this run
+      const attempt = await startQuizAttempt(user!.id, levelData.id, typing ? 'typed' : 'spoken');
+      const questionsById = new Map((questionsData as Question[]).map((question) => [question.id, question]));
+      setQuizAttemptId(attempt.id);
+      setQuestions(attempt.questionIds.flatMap((id) => questionsById.get(id) ?? []));
+
+      if (levelData.time_limit_seconds !== null) {
+        setDeadline(Date.now() + levelData.time_limit_seconds * 1000);
+        setSecondsLeft(levelData.time_limit_seconds);
+      }
     } catch (error: any) {
       toast.error(error.message);
       navigate('/levels');
@@ -92,16 +262,33 @@ export default function QuizPage() {
     }
   };
 
-  const speakQuestion = async () => {
-    if (questions[currentQuestionIndex]) {
-      try {
-        await speakText(questions[currentQuestionIndex].question_text);
-      } catch (error) {
-        console.error('Error speaking question:', error);
-      }
+  // Slows both the synthetic voice and native recordings, which play at 1x by default
+  const speak = async (text: string, options: SpeakOptions = {}, amount = slowdown) => {
+    try {
+      await speakText(text, {
+        ...toSpeakOptions(speechSettings, language),
+        rate: Math.max(speechSettings.rate - amount, MIN_SPEECH_RATE),
+        playbackRate: Math.max(1 - amount, MIN_SPEECH_RATE),
+        ...options,
+      });
+    } catch (error) {
+      console.error('Error speaking question:', error);
+    }
+  };
+
+  const speakQuestion = async (amount = slowdown) => {
+    const question = questions[currentQuestionIndex];
+    if (question) {
+      // A new or repeated question replaces whatever is still being read
+      await speak(question.question_text, { audioUrl: question.audio_url, interrupt: true }, amount);
+      promptEndedAtRef.current = Date.now();
     }
   };
 
+  const speakOption = (option: string) => {
+    speak(option, { audioUrl: questions[currentQuestionIndex].option_audio?.[option], interrupt: true });
+  };
+
   const startListening = () => {
     if (!recognition) {
       toast.error('Speech recognition not available');
@@ -110,44 +297,342 @@ export default function QuizPage() {
 
     setIsListening(true);
     setFeedbackText('Listening...');
+    setRecognitionError(null);
+
+    attemptRef.current = {
+      questionId: questions[currentQuestionIndex].id,
+      transcript: null,
+      matchedOption: null,
+      isCorrect: null,
+      timings: { promptEndedAt: null, speechStartedAt: null, speechEndedAt: null },
+      retries: retriesRef.current,
+      inputMode: 'spoken',
+      grading: null,
+    };
+    retriesRef.current += 1;
+    recorderRef.current.start().catch((error) => console.error('Error recording attempt audio:', error));
 
-    recognition.onresult = (event: any) => {
-      const spokenText = event.results[0][0].transcript;
-      setFeedbackText(`You said: "${spokenText}"`);
-      handleSpeechResult(spokenText);
+    recognition.onresult = (result) => {
+      resetSilenceTimer();
+
+      if (!result.isFinal) {
+        setInterimText(result.transcript);
+        return;
+      }
+
+      setInterimText('');
+      setFeedbackText(`You said: "${result.transcript}"`);
+      speechResultRef.current(result);
+    };
+
+    // Starting to talk stops the question being read, so the prompt end is known by now
+    recognition.onspeechstart = () => {
+      const timings = attemptRef.current?.timings;
+      if (timings && timings.speechStartedAt === null) {
+        timings.promptEndedAt = promptEndedAtRef.current;
+        timings.speechStartedAt = Date.now();
+      }
     };
 
-    recognition.onerror = (event: any) => {
-      console.error('Speech recognition error:', event.error);
+    recognition.onspeechend = () => {
+      if (attemptRef.current) {
+        attemptRef.current.timings.speechEndedAt = Date.now();
+      }
+    };
+
+    recognition.onerror = (error) => {
+      console.error('Speech recognition error:', error.error);
       setIsListening(false);
-      setFeedbackText('Could not recognize speech. Please try again.');
+      setInterimText('');
+      setFeedbackText('');
+      setRecognitionError(error.error);
     };
 
     recognition.onend = () => {
+      clearSilenceTimer();
       setIsListening(false);
+      setInterimText('');
+      finishAttempt();
     };
 
     recognition.start();
+    resetSilenceTimer();
   };
 
-  const handleSpeechResult = async (spokenText: string) => {
+  const clearSilenceTimer = () => {
+    if (silenceTimerRef.current) {
+      clearTimeout(silenceTimerRef.current);
+      silenceTimerRef.current = null;
+    }
+  };
+
+  // Continuous sessions never end on their own; stop after a stretch of silence
+  const resetSilenceTimer = () => {
+    clearSilenceTimer();
+    if (continuousListening) {
+      silenceTimerRef.current = setTimeout(() => recognition?.stop(), SILENCE_TIMEOUT_MS);
+    }
+  };
+
+  const toggleLiveTranscript = (enabled: boolean) => {
+    localStorage.setItem(LIVE_TRANSCRIPT_KEY, String(enabled));
+    setLiveTranscript(enabled);
+  };
+
+  const toggleContinuousListening = (enabled: boolean) => {
+    localStorage.setItem(CONTINUOUS_LISTENING_KEY, String(enabled));
+    setContinuousListening(enabled);
+  };
+
+  // Stores the attempt with its recording once the recognition session is over
+  const finishAttempt = async () => {
+    const attempt = attemptRef.current;
+    attemptRef.current = null;
+    const audio = await recorderRef.current.stop();
+
+    if (!attempt || !level) return;
+
+    await attempt.grading;
+    const fluency = measureFluency(attempt.timings, attempt.transcript);
+
+    try {
+      await saveSpeechAttempt({ ...attempt, userId: user!.id, levelId: level.id, audio, fluency });
+    } catch (error) {
+      console.error('Error saving speech attempt:', error);
+    }
+  };
+
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    const currentQuestion = questions[currentQuestionIndex];
+
+    switch (command) {
+      case 'repeat':
+        setFeedbackText('Repeating the question...');
+        speakQuestion();
+        break;
+      case 'slower': {
+        const amount = Math.min(slowdown + SLOWER_STEP, Math.max(speechSettings.rate, 1) - MIN_SPEECH_RATE);
+        setSlowdown(amount);
+        setFeedbackText('Speaking more slowly...');
+        speakQuestion(amount);
+        break;
+      }
+      case 'hint': {
+        const hint = `The options are: ${currentQuestion.options.join(', ')}.`;
+        setFeedbackText(hint);
+        speak(hint);
+        break;
+      }
+      case 'next':
+      case 'skip':
+        recognition?.stop();
+        nextQuestion();
+        toast.info('Question skipped. Every question must be answered to complete the level.');
+        break;
+      case 'back':
+        recognition?.stop();
+        navigate('/levels');
+        break;
+    }
+  };
+
+  const handleSpeechResult = async (result: RecognitionResult) => {
     const currentQuestion = questions[currentQuestionIndex];
-    const matchResult = findBestMatch(spokenText, currentQuestion.options);
+
+    if (pendingMatch) {
+      const confirmed = parseConfirmation(result.transcript, language);
+      if (confirmed !== null) {
+        confirmMatch(confirmed);
+        return;
+      }
+      // Neither yes nor no: treat it as a fresh answer or command
+      setPendingMatch(null);
+    }
+
+    const command = parseVoiceCommand(
+      result.transcript,
+      [...currentQuestion.options, ...currentQuestion.variant_phrasings.flat()],
+      language
+    );
+    if (command) {
+      handleVoiceCommand(command);
+      return;
+    }
+
+    // An answer is already being graded
+    if (selectedOption !== null) return;
+
+    if (attemptRef.current) {
+      attemptRef.current.transcript = result.transcript;
+    }
+
+    const matchResult = findBestAnswer(
+      result.alternatives,
+      currentQuestion.options,
+      currentQuestion.variant_phrasings,
+      {
+        accept: currentQuestion.match_threshold ?? level!.match_threshold,
+        confirm: currentQuestion.confirm_threshold ?? level!.confirm_threshold,
+      },
+      getNormalizationPipeline(language)
+    );
 
     if (!matchResult) {
       setFeedbackText(`Unrecognized answer. Please try again or click an option.`);
       return;
     }
 
+    if (attemptRef.current) {
+      attemptRef.current.matchedOption = matchResult.match;
+    }
+
+    if (matchResult.needsConfirmation) {
+      setPendingMatch(matchResult);
+      setFeedbackText(`You said: "${matchResult.transcript}". Did you mean "${matchResult.match}"? Say yes or no.`);
+      return;
+    }
+
+    if (matchResult.transcript !== result.transcript) {
+      setFeedbackText(`You said: "${matchResult.transcript}"`);
+    }
+
+    submitMatch(matchResult);
+  };
+
+  // Typed answers go through the same matching as spoken ones. There is no
+  // recognition session to wait for, so the attempt is stored right away
+  // unless it needs confirming first.
+  const handleTypedAnswer = (e: React.FormEvent) => {
+    e.preventDefault();
+    const currentQuestion = questions[currentQuestionIndex];
+    const typed = typedAnswer.trim();
+    if (!typed || selectedOption !== null) return;
+
+    setPendingMatch(null);
+    setSpellingFixes([]);
+    attemptRef.current = {
+      questionId: currentQuestion.id,
+      transcript: typed,
+      matchedOption: null,
+      isCorrect: null,
+      timings: { promptEndedAt: null, speechStartedAt: null, speechEndedAt: null },
+      retries: retriesRef.current,
+      inputMode: 'typed',
+      grading: null,
+    };
+    retriesRef.current += 1;
+
+    const matchResult = findBestAnswer(
+      typed,
+      currentQuestion.options,
+      currentQuestion.variant_phrasings,
+      {
+        accept: currentQuestion.match_threshold ?? level!.match_threshold,
+        confirm: currentQuestion.confirm_threshold ?? level!.confirm_threshold,
+      },
+      getNormalizationPipeline(language)
+    );
+
+    if (!matchResult) {
+      setFeedbackText(`"${typed}" does not match any option. Check the spelling or click an option.`);
+      finishAttempt();
+      return;
+    }
+
+    attemptRef.current.matchedOption = matchResult.match;
+    setSpellingFixes(findSpellingFixes(typed, matchResult.matchedText, language));
+
+    if (matchResult.needsConfirmation) {
+      setPendingMatch(matchResult);
+      setFeedbackText(`You typed: "${typed}". Did you mean "${matchResult.match}"?`);
+      return;
+    }
+
+    setFeedbackText(`You typed: "${typed}"`);
+    submitMatch(matchResult);
+  };
+
+  const confirmMatch = (confirmed: boolean) => {
+    const match = pendingMatch!;
+    const typed = attemptRef.current?.inputMode === 'typed';
+    setPendingMatch(null);
+
+    if (confirmed) {
+      setFeedbackText(`You ${typed ? 'typed' : 'said'}: "${match.transcript}"`);
+      submitMatch(match);
+    } else {
+      setFeedbackText('Okay, please try again or click an option.');
+      if (typed) finishAttempt();
+    }
+  };
+
+  const submitMatch = async (matchResult: MatchResult) => {
+    // A confident answer ends a continuous listening session
+    recognition?.stop();
+    const attempt = attemptRef.current;
+    const typed = attempt?.inputMode === 'typed';
+
     setSelectedOption(matchResult.match);
-    checkAnswer(matchResult.match);
+    const grading = checkAnswer(matchResult.match, {
+      inputMode: attempt?.inputMode ?? 'spoken',
+      transcript: matchResult.transcript,
+      similarity: matchResult.similarity,
+    });
+
+    if (attempt) {
+      attempt.matchedOption = matchResult.match;
+      attempt.grading = grading.then((result) => {
+        // A matched phrasing only becomes an option once the server resolves it
+        attempt.matchedOption = result?.answer ?? attempt.matchedOption;
+        attempt.isCorrect = result?.isCorrect ?? null;
+      });
+    }
+
+    // Nothing was spoken, so there is no pronunciation to score
+    if (typed) {
+      finishAttempt();
+      return;
+    }
+
+    // The pronouncing dictionary only covers English
+    if (!isEnglish(language)) return;
+
+    try {
+      setPronunciation(await scorePronunciation(matchResult.transcript, matchResult.matchedText));
+    } catch (error) {
+      console.error('Error scoring pronunciation:', error);
+    }
   };
 
-  const checkAnswer = async (selectedAnswer: string) => {
+  // Resolves with the server's verdict, or null when the answer matched no
+  // option or the server could not be reached. A matched phrasing is sent as
+  // is and the server resolves it to its option.
+  const checkAnswer = async (
+    selectedAnswer: string,
+    details: AnswerDetails = CLICKED_ANSWER
+  ): Promise<AnswerResult | null> => {
     const currentQuestion = questions[currentQuestionIndex];
-    const correct = selectedAnswer === currentQuestion.correct_answer;
-    
+    let result: AnswerResult | null;
+
+    try {
+      result = await submitAnswer(quizAttemptId!, currentQuestion.id, selectedAnswer, details);
+    } catch (error) {
+      console.error('Error checking answer:', error);
+      toast.error('Could not check your answer. Please try again.');
+      setSelectedOption(null);
+      return null;
+    }
+
+    if (!result) {
+      setSelectedOption(null);
+      setFeedbackText(`"${selectedAnswer}" does not match any option. Please try again or click an option.`);
+      return null;
+    }
+
+    const correct = result.isCorrect;
+    setSelectedOption(result.answer);
     setIsCorrect(correct);
+    setCorrectAnswer(result.correctAnswer);
 
     if (correct) {
       setScore(score + 1);
@@ -158,13 +643,15 @@ export default function QuizPage() {
       setMistakes(newMistakes);
       toast.error('Incorrect!');
 
-      if (newMistakes >= 3) {
-        toast.error('You made 3 mistakes. Quiz ended.');
-        setTimeout(() => endQuiz(true), 2000);
+      if (level!.max_mistakes !== null && newMistakes >= level!.max_mistakes) {
+        toast.error(`You made ${newMistakes} ${newMistakes === 1 ? 'mistake' : 'mistakes'}. Quiz ended.`);
+        setTimeout(() => endQuiz(), 2000);
       } else {
         setTimeout(() => nextQuestion(), 2500);
       }
     }
+
+    return result;
   };
 
   const nextQuestion = () => {
@@ -172,50 +659,34 @@ export default function QuizPage() {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
       setSelectedOption(null);
       setIsCorrect(null);
+      setCorrectAnswer(null);
       setFeedbackText('');
+      setPronunciation(null);
+      setPendingMatch(null);
+      setTypedAnswer('');
+      setSpellingFixes([]);
     } else {
-      endQuiz(false);
+      endQuiz();
     }
   };
 
-  const endQuiz = async (failedDueToMistakes: boolean) => {
-    const finalScore = failedDueToMistakes ? 0 : score;
-    
-    try {
-      // Update progress
-      const { error: progressError } = await supabase
-        .from('progress')
-        .update({
-          status: failedDueToMistakes ? 'unlocked' : 'completed',
-          high_score: finalScore,
-        })
-        .eq('user_id', user!.id)
-        .eq('level_number', parseInt(levelNumber!));
-
-      if (progressError) throw progressError;
-
-      // Unlock next level if completed successfully
-      if (!failedDueToMistakes) {
-        const nextLevel = parseInt(levelNumber!) + 1;
-        await supabase
-          .from('progress')
-          .update({ status: 'unlocked' })
-          .eq('user_id', user!.id)
-          .eq('level_number', nextLevel);
-      }
+  const endQuiz = async () => {
+    if (endedRef.current) return;
+    endedRef.current = true;
+    recognition?.stop();
 
-      toast.success(
-        failedDueToMistakes
-          ? 'Try again!'
-          : `Level completed! Score: ${finalScore}/${questions.length}`
-      );
-      
-      setTimeout(() => navigate('/levels'), 2000);
+    try {
+      await completeQuizAttempt(quizAttemptId!);
+      navigate(`/quiz/${levelNumber}/results/${quizAttemptId}`);
     } catch (error: any) {
+      endedRef.current = false;
       toast.error(error.message);
     }
   };
 
+  speechResultRef.current = handleSpeechResult;
+  endQuizRef.current = endQuiz;
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
@@ -238,9 +709,18 @@ export default function QuizPage() {
             </Button>
             <div className="flex gap-4">
               <Badge variant="outline">Score: {score}</Badge>
-              <Badge variant={mistakes >= 2 ? 'destructive' : 'secondary'}>
-                Mistakes: {mistakes}/3
+              <Badge
+                variant={level?.max_mistakes && mistakes >= level.max_mistakes - 1 ? 'destructive' : 'secondary'}
+              >
+                Mistakes: {mistakes}
+                {level?.max_mistakes && `/${level.max_mistakes}`}
               </Badge>
+              {secondsLeft !== null && (
+                <Badge variant={secondsLeft <= 30 ? 'destructive' : 'outline'}>
+                  <Timer className="h-3 w-3 mr-1" />
+                  {formatCountdown(secondsLeft)}
+                </Badge>
+              )}
             </div>
           </div>
           <Progress value={progressPercentage} className="h-2" />
@@ -284,65 +764,213 @@ export default function QuizPage() {
                   <Button
                     variant="outline"
                     size="icon"
-                    onClick={speakQuestion}
+                    onClick={() => speakQuestion()}
                     className="flex-shrink-0"
                   >
                     <Volume2 className="h-5 w-5" />
                   </Button>
                   <h2 className="text-2xl font-bold flex-grow">
-                    {currentQuestion.question_text}
+                    <SpokenText text={currentQuestion.question_text} />
                   </h2>
+                  {speech.text && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={speech.paused ? speechQueue.resume : speechQueue.pause}
+                      className="flex-shrink-0"
+                      aria-label={speech.paused ? 'Resume reading' : 'Pause reading'}
+                    >
+                      {speech.paused ? <Play className="h-5 w-5" /> : <Pause className="h-5 w-5" />}
+                    </Button>
+                  )}
                 </div>
               </div>
 
               <div className="mb-6">
-                <Button
-                  onClick={startListening}
-                  disabled={isListening || selectedOption !== null}
-                  className="w-full py-6 text-lg bg-gradient-primary hover:opacity-90"
-                  size="lg"
-                >
-                  <Mic className={`h-6 w-6 mr-2 ${isListening ? 'animate-pulse' : ''}`} />
-                  {isListening ? 'Listening...' : 'Speak Your Answer 🎙️'}
-                </Button>
-                
-                {feedbackText && (
+                {typing ? (
+                  <form onSubmit={handleTypedAnswer} className="flex gap-2">
+                    <Input
+                      value={typedAnswer}
+                      onChange={(e) => setTypedAnswer(e.target.value)}
+                      placeholder="Type your answer"
+                      disabled={selectedOption !== null}
+                      aria-label="Your answer"
+                      autoFocus
+                      className="h-14 text-lg"
+                    />
+                    <Button
+                      type="submit"
+                      disabled={!typedAnswer.trim() || selectedOption !== null}
+                      className="h-14 px-6 bg-gradient-primary hover:opacity-90"
+                    >
+                      <Send className="h-5 w-5 mr-2" />
+                      Answer
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <Button
+                      onClick={startListening}
+                      disabled={isListening || selectedOption !== null}
+                      className="w-full py-6 text-lg bg-gradient-primary hover:opacity-90"
+                      size="lg"
+                    >
+                      <Mic className={`h-6 w-6 mr-2 ${isListening ? 'animate-pulse' : ''}`} />
+                      {isListening ? 'Listening...' : pendingMatch ? 'Say Yes or No 🎙️' : 'Speak Your Answer 🎙️'}
+                    </Button>
+
+                    <div className="mt-3 flex flex-wrap justify-center gap-6">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="live-transcript"
+                          checked={liveTranscript}
+                          onCheckedChange={toggleLiveTranscript}
+                          disabled={isListening}
+                        />
+                        <Label htmlFor="live-transcript" className="text-sm text-muted-foreground">
+                          Live transcript
+                        </Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="continuous-listening"
+                          checked={continuousListening}
+                          onCheckedChange={toggleContinuousListening}
+                          disabled={isListening}
+                        />
+                        <Label htmlFor="continuous-listening" className="text-sm text-muted-foreground">
+                          Keep listening until I answer
+                        </Label>
+                      </div>
+                    </div>
+
+                    <p className="mt-2 text-center text-xs text-muted-foreground">
+                      You can also say {getCommandExamples(language).map((example) => `"${example}"`).join(', ')}.
+                    </p>
+                  </>
+                )}
+
+                {isSpeechRecognitionSupported() && (
+                  <div className="mt-2 flex justify-center">
+                    <Button
+                      variant="link"
+                      size="sm"
+                      onClick={() => setTyping(!typing)}
+                      disabled={isListening}
+                      className="text-muted-foreground"
+                    >
+                      {typing ? <Mic className="h-4 w-4 mr-1" /> : <Keyboard className="h-4 w-4 mr-1" />}
+                      {typing ? 'Speak instead' : 'Type instead'}
+                    </Button>
+                  </div>
+                )}
+
+                {(feedbackText || interimText) && (
                   <div className="mt-4 p-4 rounded-lg bg-accent text-accent-foreground flex items-center gap-2">
                     <AlertCircle className="h-5 w-5 flex-shrink-0" />
-                    <p>{feedbackText}</p>
+                    <div>
+                      {feedbackText && <p>{feedbackText}</p>}
+                      {interimText && (
+                        <p className="italic text-muted-foreground" aria-live="polite">
+                          {interimText}…
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {recognitionError && (
+                  <div className="mt-4 p-4 rounded-lg border border-error/40 bg-card flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <p className="font-medium">{getRecognitionErrorGuidance(recognitionError).title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {getRecognitionErrorGuidance(recognitionError).description}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => navigate('/mic-check')}>
+                      <Settings2 className="h-4 w-4 mr-2" />
+                      Check microphone
+                    </Button>
+                  </div>
+                )}
+
+                {pendingMatch && (
+                  <div className="mt-4 p-4 rounded-lg border border-primary/40 bg-card flex flex-wrap items-center justify-between gap-3">
+                    <p className="font-medium">Did you mean "{pendingMatch.match}"?</p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => confirmMatch(true)}>
+                        Yes
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => confirmMatch(false)}>
+                        No
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {spellingFixes.length > 0 && (
+                  <div className="mt-4 p-4 rounded-lg border bg-card">
+                    <p className="font-medium">Check your spelling</p>
+                    <ul className="mt-1 space-y-1 text-sm">
+                      {spellingFixes.map((fix) => (
+                        <li key={`${fix.typed}-${fix.correct}`}>
+                          <span className="line-through text-error">{fix.typed}</span> →{' '}
+                          <span className="font-semibold text-success">{fix.correct}</span>
+                        </li>
+                      ))}
+                    </ul>
                   </div>
                 )}
+
+                {pronunciation && <PronunciationFeedback result={pronunciation} />}
               </div>
 
               <div className="space-y-3">
                 <p className="text-sm text-muted-foreground font-medium mb-3">Or select an option:</p>
                 {currentQuestion.options.map((option) => {
                   const isSelected = option === selectedOption;
-                  const isCorrectAnswer = option === currentQuestion.correct_answer;
+                  const isCorrectAnswer = option === correctAnswer;
                   const showCorrect = selectedOption && isCorrectAnswer;
-                  const showIncorrect = isSelected && !isCorrect;
+                  const showIncorrect = isSelected && isCorrect === false;
+                  // Chosen, but the server has not graded it yet
+                  const showPending = isSelected && isCorrect === null;
 
                   return (
-                    <Button
-                      key={option}
-                      onClick={() => {
-                        if (selectedOption === null) {
-                          setSelectedOption(option);
-                          checkAnswer(option);
-                        }
-                      }}
-                      disabled={selectedOption !== null}
-                      variant="outline"
-                      className={`w-full justify-start text-left h-auto py-4 px-6 text-base transition-all ${
-                        showCorrect ? 'bg-success text-success-foreground border-success' : ''
-                      } ${showIncorrect ? 'bg-error text-error-foreground border-error' : ''}`}
-                    >
-                      <span className="flex items-center gap-3">
-                        {showCorrect && <CheckCircle2 className="h-5 w-5" />}
-                        {showIncorrect && <XCircle className="h-5 w-5" />}
-                        {option}
-                      </span>
-                    </Button>
+                    <div key={option} className="flex items-stretch gap-2">
+                      <Button
+                        onClick={() => {
+                          if (selectedOption === null) {
+                            // A typed answer still waiting for confirmation is dropped
+                            if (attemptRef.current?.inputMode === 'typed') finishAttempt();
+                            setPendingMatch(null);
+                            setSelectedOption(option);
+                            checkAnswer(option);
+                          }
+                        }}
+                        disabled={selectedOption !== null}
+                        variant="outline"
+                        className={`flex-grow justify-start text-left h-auto py-4 px-6 text-base transition-all ${
+                          showCorrect ? 'bg-success text-success-foreground border-success' : ''
+                        } ${showIncorrect ? 'bg-error text-error-foreground border-error' : ''} ${
+                          showPending ? 'bg-secondary border-primary' : ''
+                        }`}
+                      >
+                        <span className="flex items-center gap-3">
+                          {showPending && <Loader2 className="h-5 w-5 animate-spin" />}
+                          {showCorrect && <CheckCircle2 className="h-5 w-5" />}
+                          {showIncorrect && <XCircle className="h-5 w-5" />}
+                          <SpokenText text={option} />
+                        </span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        onClick={() => speakOption(option)}
+                        className="h-auto flex-shrink-0 px-4"
+                        aria-label={`Hear how "${option}" is pronounced`}
+                      >
+                        <Volume2 className="h-5 w-5" />
+                      </Button>
+                    </div>
                   );
                 })}
               </div>
@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { toSpeakOptions, useSpeechSettings } from '@/contexts/SpeechSettingsContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ArrowRight, CheckCircle2, RotateCcw, Volume2, XCircle, ListFilter } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatAttemptDuration, OutcomeBadge } from '@/components/QuizAttemptsTable';
+import { SpokenText } from '@/components/SpokenText';
+import { speechQueue } from '@/utils/speechQueue';
+import { speakText } from '@/utils/speechRecognition';
+import { toCourseLanguage } from '@/utils/languages';
+
+interface Attempt {
+  id: string;
+  level_id: string;
+  score: number;
+  mistakes: number;
+  started_at: string;
+  ended_at: string | null;
+  outcome: 'passed' | 'failed' | null;
+  question_ids: string[];
+  levels: { level_number: number; title: string; language: string; pass_mark: number };
+}
+
+interface Answer {
+  question_id: string;
+  answer: string;
+  correct_answer: string;
+  input_mode: 'spoken' | 'typed' | 'clicked';
+  transcript: string | null;
+  similarity: number | null;
+  is_correct: boolean;
+}
+
+interface Question {
+  id: string;
+  question_text: string;
+  audio_url: string | null;
+}
+
+export default function QuizResultsPage() {
+  const { levelNumber, attemptId } = useParams();
+  const { user } = useAuth();
+  const { settings: speechSettings } = useSpeechSettings();
+  const navigate = useNavigate();
+
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [answers, setAnswers] = useState<Record<string, Answer>>({});
+  const [nextLevelNumber, setNextLevelNumber] = useState<number | null>(null);
+  const [mistakesOnly, setMistakesOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const language = toCourseLanguage(attempt?.levels.language);
+
+  useEffect(() => {
+    fetchResults();
+
+    return () => speechQueue.cancel();
+  }, [attemptId]);
+
+  const fetchResults = async () => {
+    try {
+      const { data: attemptData, error: attemptError } = await supabase
+        .from('quiz_attempts')
+        .select(
+          'id, level_id, score, mistakes, started_at, ended_at, outcome, question_ids, levels(level_number, title, language, pass_mark)'
+        )
+        .eq('id', attemptId!)
+        .single();
+
+      if (attemptError) throw attemptError;
+      const level = (attemptData as Attempt).levels;
+
+      const [questionsRes, answersRes, nextLevelRes] = await Promise.all([
+        supabase
+          .from('quiz_questions')
+          .select('id, question_text, audio_url')
+          .in('id', attemptData.question_ids),
+        supabase
+          .from('attempt_answers')
+          .select('question_id, answer, correct_answer, input_mode, transcript, similarity, is_correct')
+          .eq('attempt_id', attemptId!),
+        supabase
+          .from('levels')
+          .select('level_number')
+          .eq('language', level.language)
+          .gt('level_number', level.level_number)
+          .order('level_number')
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (questionsRes.error) throw questionsRes.error;
+      if (answersRes.error) throw answersRes.error;
+      if (nextLevelRes.error) throw nextLevelRes.error;
+
+      // The next level is only offered once it is open to the learner
+      if (nextLevelRes.data) {
+        const { data: nextProgress } = await supabase
+          .from('progress')
+          .select('status')
+          .eq('user_id', user!.id)
+          .eq('level_number', nextLevelRes.data.level_number)
+          .maybeSingle();
+
+        if (nextProgress?.status !== 'locked') setNextLevelNumber(nextLevelRes.data.level_number);
+      }
+
+      setAttempt(attemptData as Attempt);
+      // Only the questions drawn for this run, in the order they were asked
+      const questionsById = new Map((questionsRes.data as Question[]).map((question) => [question.id, question]));
+      setQuestions(attemptData.question_ids.flatMap((id) => questionsById.get(id) ?? []));
+      setAnswers(Object.fromEntries((answersRes.data as Answer[]).map((answer) => [answer.question_id, answer])));
+    } catch (error) {
+      toast.error((error as Error).message);
+      navigate('/levels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const playQuestion = async (question: Question) => {
+    try {
+      await speakText(question.question_text, {
+        ...toSpeakOptions(speechSettings, language),
+        audioUrl: question.audio_url,
+        interrupt: true,
+      });
+    } catch (error) {
+      console.error('Error playing question:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!attempt) return null;
+
+  // Skipped questions count as mistakes to review too
+  const isMistake = (question: Question) => !answers[question.id]?.is_correct;
+  const shownQuestions = mistakesOnly ? questions.filter(isMistake) : questions;
+  const hasMistakes = questions.some(isMistake);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card shadow-soft">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/levels')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Levels
+          </Button>
+          <h1 className="text-2xl font-bold text-primary">
+            Level {attempt.levels.level_number}: {attempt.levels.title}
+          </h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <Card className="mb-6 shadow-large">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>{attempt.outcome === 'passed' ? 'Level completed! 🎉' : 'Keep practising!'}</CardTitle>
+            <div className="flex items-center gap-2">
+              {attempt.levels.pass_mark > 0 && (
+                <span className="text-sm text-muted-foreground">Pass mark {attempt.levels.pass_mark}%</span>
+              )}
+              <OutcomeBadge attempt={attempt} />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-3xl font-bold">
+                  {attempt.score}/{questions.length}
+                </p>
+                <p className="text-sm text-muted-foreground">Score</p>
+              </div>
+              <div>
+                <p className="text-3xl font-bold">{attempt.mistakes}</p>
+                <p className="text-sm text-muted-foreground">Mistakes</p>
+              </div>
+              <div>
+                <p className="text-3xl font-bold">{formatAttemptDuration(attempt)}</p>
+                <p className="text-sm text-muted-foreground">Time taken</p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => navigate(`/quiz/${levelNumber}`)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry Level
+              </Button>
+              <Button variant="outline" onClick={() => setMistakesOnly(!mistakesOnly)} disabled={!hasMistakes}>
+                <ListFilter className="h-4 w-4 mr-2" />
+                {mistakesOnly ? 'Show All Questions' : 'Review Mistakes'}
+              </Button>
+              <Button
+                onClick={() => navigate(`/quiz/${nextLevelNumber}`)}
+                disabled={nextLevelNumber === null}
+                className="ml-auto bg-gradient-primary hover:opacity-90"
+              >
+                Next Level
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          {shownQuestions.map((question) => {
+            const answer = answers[question.id];
+
+            return (
+              <Card key={question.id}>
+                <CardContent className="p-6 space-y-3">
+                  <div className="flex items-start gap-3">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => playQuestion(question)}
+                      className="flex-shrink-0"
+                      aria-label="Replay the question"
+                    >
+                      <Volume2 className="h-4 w-4" />
+                    </Button>
+                    <p className="text-lg font-medium flex-grow">
+                      <SpokenText text={question.question_text} />
+                    </p>
+                    {answer?.is_correct ? (
+                      <CheckCircle2 className="h-6 w-6 flex-shrink-0 text-success" />
+                    ) : (
+                      <XCircle className="h-6 w-6 flex-shrink-0 text-error" />
+                    )}
+                  </div>
+
+                  {answer ? (
+                    <div className="space-y-1 text-sm">
+                      <p>
+                        Your answer:{' '}
+                        <Badge
+                          className={
+                            answer.is_correct ? 'bg-success text-success-foreground' : 'bg-error text-error-foreground'
+                          }
+                        >
+                          {answer.answer}
+                        </Badge>
+                      </p>
+                      {!answer.is_correct && (
+                        <p>
+                          Correct answer: <Badge variant="outline">{answer.correct_answer}</Badge>
+                        </p>
+                      )}
+                      {answer.transcript && (
+                        <p className="italic text-muted-foreground">
+                          {answer.input_mode === 'typed' ? 'You typed' : 'We heard'}: "{answer.transcript}"
+                          {answer.similarity !== null && ` (${Math.round(answer.similarity * 100)}% match)`}
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Skipped</p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { SpeechAttempt, SpeechAttemptsTable, SPEECH_ATTEMPT_COLUMNS } from '@/components/SpeechAttemptsTable';
+import { FluencyTrends } from '@/components/FluencyTrends';
+import { QuizAttempt, QuizAttemptsTable, QUIZ_ATTEMPT_COLUMNS } from '@/components/QuizAttemptsTable';
+
+export default function ResultsPage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [attempts, setAttempts] = useState<SpeechAttempt[]>([]);
+  const [quizAttempts, setQuizAttempts] = useState<QuizAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAttempts();
+  }, [user]);
+
+  const fetchAttempts = async () => {
+    try {
+      const [attemptsRes, quizAttemptsRes] = await Promise.all([
+        supabase
+          .from('speech_attempts')
+          .select(SPEECH_ATTEMPT_COLUMNS)
+          .eq('user_id', user!.id)
+          .order('created_at', { ascending: false })
+          .limit(100),
+        supabase
+          .from('quiz_attempts')
+          .select(QUIZ_ATTEMPT_COLUMNS)
+          .eq('user_id', user!.id)
+          .order('started_at', { ascending: false })
+          .limit(50),
+      ]);
+
+      if (attemptsRes.error) throw attemptsRes.error;
+      if (quizAttemptsRes.error) throw quizAttemptsRes.error;
+      setAttempts(attemptsRes.data as SpeechAttempt[]);
+      setQuizAttempts(quizAttemptsRes.data as QuizAttempt[]);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card shadow-soft">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/levels')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Levels
+          </Button>
+          <h1 className="text-2xl font-bold text-primary">My Results</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Quiz History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <QuizAttemptsTable
+              attempts={quizAttempts}
+              onView={(attempt) => navigate(`/quiz/${attempt.levels?.level_number}/results/${attempt.id}`)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Fluency Trends</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <FluencyTrends attempts={attempts} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Spoken Attempts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SpeechAttemptsTable attempts={attempts} />
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Volume2, Save, Mic, Download, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useVoices } from '@/hooks/use-voices';
+import {
+  ACCENTS,
+  Accent,
+  SpeechSettings,
+  toSpeakOptions,
+  useSpeechSettings,
+} from '@/contexts/SpeechSettingsContext';
+import {
+  EnginePreference,
+  getEnginePreference,
+  getSpeechEngine,
+  isSpeechRecognitionSupported,
+  setEnginePreference,
+  speakText,
+} from '@/utils/speechRecognition';
+import {
+  getOfflineModelUrl,
+  isOfflineModelCached,
+  isOfflineRecognitionSupported,
+  loadOfflineModel,
+} from '@/utils/recognizers/offlineRecognizer';
+import { LANGUAGES } from '@/utils/languages';
+
+const AUTO_VOICE = 'auto';
+
+type ModelStatus = 'missing' | 'downloading' | 'ready';
+
+const ENGINES: { value: EnginePreference; label: string }[] = [
+  { value: 'auto', label: 'Automatic' },
+  { value: 'web-speech', label: 'Browser speech service (online)' },
+  { value: 'offline', label: 'Offline model (runs on this device)' },
+];
+
+export default function SettingsPage() {
+  const navigate = useNavigate();
+  const { settings, loading, saveSettings } = useSpeechSettings();
+  const voices = useVoices();
+  const [draft, setDraft] = useState<SpeechSettings>(settings);
+  const [previewText, setPreviewText] = useState('Could I have the menu, please?');
+  const [saving, setSaving] = useState(false);
+  const [engine, setEngine] = useState<EnginePreference>(getEnginePreference);
+  const [modelStatus, setModelStatus] = useState<Record<string, ModelStatus>>({});
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    fetchModelStatus();
+  }, []);
+
+  const fetchModelStatus = async () => {
+    try {
+      const entries = await Promise.all(
+        LANGUAGES.map(async ({ code }) => {
+          const url = getOfflineModelUrl(code);
+          const cached = url ? await isOfflineModelCached(url) : false;
+          return [code, cached ? 'ready' : 'missing'] as const;
+        })
+      );
+      setModelStatus(Object.fromEntries(entries));
+    } catch (error) {
+      console.error('Error checking offline models:', error);
+    }
+  };
+
+  const accentVoices = voices.filter((voice) => voice.lang.replace('_', '-') === draft.accent);
+
+  const handleAccentChange = (accent: Accent) => {
+    // A voice picked for another accent would no longer apply
+    setDraft({ ...draft, accent, voice_uri: null });
+  };
+
+  const handlePreview = async () => {
+    try {
+      await speakText(previewText, { ...toSpeakOptions(draft), interrupt: true });
+    } catch (error) {
+      console.error('Error previewing voice:', error);
+      toast.error('Could not play the preview');
+    }
+  };
+
+  const handleEngineChange = (value: EnginePreference) => {
+    setEnginePreference(value);
+    setEngine(value);
+    toast.success('Recognition engine updated');
+  };
+
+  // Downloading ahead of time lets the offline engine work without a connection later
+  const handleDownloadModel = async (code: string) => {
+    setModelStatus((status) => ({ ...status, [code]: 'downloading' }));
+    try {
+      await loadOfflineModel(getOfflineModelUrl(code)!);
+      setModelStatus((status) => ({ ...status, [code]: 'ready' }));
+    } catch (error) {
+      console.error('Error downloading offline model:', error);
+      setModelStatus((status) => ({ ...status, [code]: 'missing' }));
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveSettings(draft);
+    } catch {
+      // saveSettings already reported the error
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card shadow-soft">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <Button variant="ghost" onClick={() => navigate('/levels')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Levels
+          </Button>
+          <h1 className="text-2xl font-bold text-primary">Settings</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>Speech</CardTitle>
+            <CardDescription>
+              Choose how questions are read aloud to you. Accent and voice apply to English courses.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label>Accent</Label>
+              <Select value={draft.accent} onValueChange={(value) => handleAccentChange(value as Accent)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCENTS.map((accent) => (
+                    <SelectItem key={accent.value} value={accent.value}>
+                      {accent.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Voice</Label>
+              <Select
+                value={draft.voice_uri ?? AUTO_VOICE}
+                onValueChange={(value) => setDraft({ ...draft, voice_uri: value === AUTO_VOICE ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_VOICE}>Default voice for this accent</SelectItem>
+                  {accentVoices.map((voice) => (
+                    <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {voices.length > 0 && accentVoices.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Your browser has no voices for this accent; the closest available voice will be used.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Speaking rate</Label>
+                <span className="text-sm text-muted-foreground">{draft.rate.toFixed(1)}×</span>
+              </div>
+              <Slider
+                min={0.5}
+                max={2}
+                step={0.1}
+                value={[draft.rate]}
+                onValueChange={([rate]) => setDraft({ ...draft, rate })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Pitch</Label>
+                <span className="text-sm text-muted-foreground">{draft.pitch.toFixed(1)}</span>
+              </div>
+              <Slider
+                min={0}
+                max={2}
+                step={0.1}
+                value={[draft.pitch]}
+                onValueChange={([pitch]) => setDraft({ ...draft, pitch })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="preview-text">Preview</Label>
+              <div className="flex gap-2">
+                <Input id="preview-text" value={previewText} onChange={(e) => setPreviewText(e.target.value)} />
+                <Button variant="outline" onClick={handlePreview} disabled={!previewText.trim()}>
+                  <Volume2 className="h-4 w-4 mr-2" />
+                  Play
+                </Button>
+              </div>
+            </div>
+
+            <Button onClick={handleSave} disabled={saving} className="w-full">
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Settings'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Speech Recognition</CardTitle>
+            <CardDescription>
+              Choose how your answers are recognized on this device. The offline model works without an internet
+              connection once it has been downloaded.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <Label>Engine</Label>
+              <Select value={engine} onValueChange={(value) => handleEngineChange(value as EnginePreference)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENGINES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {engine === 'auto' && (
+                <p className="text-sm text-muted-foreground">
+                  {!isSpeechRecognitionSupported(getSpeechEngine())
+                    ? 'Your browser has no speech service and no offline model is available, so answers will be typed.'
+                    : getSpeechEngine() === 'offline'
+                      ? 'Your browser has no speech service, so the offline model will be used.'
+                      : 'Your browser speech service will be used.'}
+                </p>
+              )}
+            </div>
+
+            {isOfflineRecognitionSupported() ? (
+              <div className="space-y-2">
+                <Label>Offline models</Label>
+                {LANGUAGES.map(({ code, label }) => (
+                  <div key={code} className="flex items-center justify-between rounded-md border p-3">
+                    <span>{label}</span>
+                    {modelStatus[code] === 'ready' ? (
+                      <span className="flex items-center text-sm text-success">
+                        <CheckCircle2 className="h-4 w-4 mr-1" />
+                        Downloaded
+                      </span>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownloadModel(code)}
+                        disabled={modelStatus[code] === 'downloading'}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        {modelStatus[code] === 'downloading' ? 'Downloading...' : 'Download'}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Your browser cannot run the offline model.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Microphone</CardTitle>
+            <CardDescription>Choose an input device and make sure you can be heard</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => navigate('/mic-check')}>
+              <Mic className="h-4 w-4 mr-2" />
+              Open Microphone Check
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { toSpeakOptions, useSpeechSettings } from '@/contexts/SpeechSettingsContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, ArrowRight, Mic, Volume2, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { WordDiffView } from '@/components/WordDiffView';
+import { SpokenText } from '@/components/SpokenText';
+import { speechQueue } from '@/utils/speechQueue';
+import {
+  createSpeechRecognition,
+  isSpeechRecognitionSupported,
+  speakText,
+  SpeechRecognizer,
+} from '@/utils/speechRecognition';
+import { diffWords, WordDiff } from '@/utils/wordDiff';
+import { toCourseLanguage } from '@/utils/languages';
+
+interface Level {
+  id: string;
+  level_number: number;
+  title: string;
+  language: string;
+}
+
+interface ShadowingSentence {
+  id: string;
+  sentence: string;
+}
+
+export default function ShadowingPage() {
+  const { levelNumber } = useParams();
+  const { user } = useAuth();
+  const { settings: speechSettings } = useSpeechSettings();
+  const navigate = useNavigate();
+
+  const [level, setLevel] = useState<Level | null>(null);
+  const [sentences, setSentences] = useState<ShadowingSentence[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [diff, setDiff] = useState<WordDiff | null>(null);
+  const [bestAccuracy, setBestAccuracy] = useState<Record<string, number>>({});
+  const [isListening, setIsListening] = useState(false);
+  const [feedbackText, setFeedbackText] = useState('');
+  const [loading, setLoading] = useState(true);
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
+  const language = toCourseLanguage(level?.language);
+
+  useEffect(() => {
+    if (!isSpeechRecognitionSupported()) {
+      toast.error('Speech recognition is not supported in your browser. Please use Chrome or Edge.');
+    }
+
+    fetchDrill();
+
+    return () => {
+      recognitionRef.current?.stop();
+      speechQueue.cancel();
+    };
+  }, [levelNumber]);
+
+  useEffect(() => {
+    if (sentences[currentIndex]) {
+      speakSentence();
+    }
+  }, [currentIndex, sentences]);
+
+  const fetchDrill = async () => {
+    try {
+      const { data: levelData, error: levelError } = await supabase
+        .from('levels')
+        .select('id, level_number, title, language')
+        .eq('level_number', parseInt(levelNumber!))
+        .single();
+
+      if (levelError) throw levelError;
+      setLevel(levelData);
+
+      const { data: sentencesData, error: sentencesError } = await supabase
+        .from('shadowing_sentences')
+        .select('id, sentence')
+        .eq('level_id', levelData.id)
+        .order('position');
+
+      if (sentencesError) throw sentencesError;
+      if (sentencesData.length === 0) {
+        toast.error('This level has no shadowing sentences yet.');
+        navigate('/levels');
+        return;
+      }
+      setSentences(sentencesData);
+    } catch (error) {
+      toast.error((error as Error).message);
+      navigate('/levels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const speakSentence = async () => {
+    try {
+      await speakText(sentences[currentIndex].sentence, { ...toSpeakOptions(speechSettings, language), interrupt: true });
+    } catch (error) {
+      console.error('Error speaking sentence:', error);
+    }
+  };
+
+  const startListening = () => {
+    const recognition = createSpeechRecognition({ lang: language });
+    if (!recognition) {
+      toast.error('Speech recognition not available');
+      return;
+    }
+
+    const sentence = sentences[currentIndex];
+    setIsListening(true);
+    setFeedbackText('Listening...');
+
+    recognition.onresult = (result) => {
+      if (!result.isFinal) return;
+      setFeedbackText(`You said: "${result.transcript}"`);
+      handleRepetition(sentence, result.transcript);
+    };
+
+    recognition.onerror = (error) => {
+      console.error('Speech recognition error:', error.error);
+      setFeedbackText('Could not recognize speech. Please try again.');
+    };
+
+    recognition.onend = () => {
+      if (recognitionRef.current === recognition) recognitionRef.current = null;
+      setIsListening(false);
+    };
+
+    recognitionRef.current = recognition;
+    recognition.start();
+  };
+
+  const handleRepetition = async (sentence: ShadowingSentence, transcript: string) => {
+    const result = diffWords(transcript, sentence.sentence, language);
+    setDiff(result);
+    setBestAccuracy((previous) => ({
+      ...previous,
+      [sentence.id]: Math.max(previous[sentence.id] ?? 0, result.accuracy),
+    }));
+
+    try {
+      const { error } = await supabase.from('shadowing_results').insert({
+        user_id: user!.id,
+        sentence_id: sentence.id,
+        transcript,
+        accuracy: result.accuracy,
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving shadowing result:', error);
+    }
+  };
+
+  const goToSentence = (index: number) => {
+    setCurrentIndex(index);
+    setDiff(null);
+    setFeedbackText('');
+  };
+
+  const finishDrill = () => {
+    const scores = Object.values(bestAccuracy);
+    const average = scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
+    toast.success(`Drill finished! Average accuracy: ${average}%`);
+    navigate('/levels');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  const currentSentence = sentences[currentIndex];
+  const isLastSentence = currentIndex === sentences.length - 1;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card shadow-soft">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between mb-4">
+            <Button variant="ghost" onClick={() => navigate('/levels')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Levels
+            </Button>
+            {currentSentence && bestAccuracy[currentSentence.id] !== undefined && (
+              <Badge variant="outline">Best: {bestAccuracy[currentSentence.id]}%</Badge>
+            )}
+          </div>
+          <Progress value={((currentIndex + 1) / sentences.length) * 100} className="h-2" />
+          <p className="text-sm text-muted-foreground mt-2 text-center">
+            Sentence {currentIndex + 1} of {sentences.length}
+          </p>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        {level && (
+          <h1 className="text-3xl font-bold mb-6">
+            Shadowing — Level {level.level_number}: {level.title}
+          </h1>
+        )}
+
+        {currentSentence && (
+          <Card className="shadow-large">
+            <CardContent className="p-8 space-y-6">
+              <p className="text-sm text-muted-foreground">Listen, then repeat the sentence exactly.</p>
+
+              <div className="flex items-start gap-4">
+                <Button variant="outline" size="icon" onClick={speakSentence} className="flex-shrink-0">
+                  <Volume2 className="h-5 w-5" />
+                </Button>
+                <h2 className="text-2xl font-bold flex-grow">
+                  <SpokenText text={currentSentence.sentence} />
+                </h2>
+              </div>
+
+              <Button
+                onClick={startListening}
+                disabled={isListening}
+                className="w-full py-6 text-lg bg-gradient-primary hover:opacity-90"
+                size="lg"
+              >
+                <Mic className={`h-6 w-6 mr-2 ${isListening ? 'animate-pulse' : ''}`} />
+                {isListening ? 'Listening...' : diff ? 'Try Again 🎙️' : 'Repeat After Me 🎙️'}
+              </Button>
+
+              {feedbackText && (
+                <div className="p-4 rounded-lg bg-accent text-accent-foreground flex items-center gap-2">
+                  <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                  <p>{feedbackText}</p>
+                </div>
+              )}
+
+              {diff && <WordDiffView diff={diff} />}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => goToSentence(currentIndex - 1)} disabled={currentIndex === 0}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Previous
+                </Button>
+                {isLastSentence ? (
+                  <Button onClick={finishDrill}>Finish</Button>
+                ) : (
+                  <Button onClick={() => goToSentence(currentIndex + 1)}>
+                    Next
+                    <ArrowRight className="h-4 w-4 ml-2" />
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -9,6 +9,9 @@ import { Textarea } from '@/components/ui/textarea';
 import { ArrowLeft, Plus, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { ConfirmationModal } from '@/components/ConfirmationModal';
+import { AudioClipEditor } from '@/components/AudioClipEditor';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '@/utils/languages';
 
 interface Question {
   id?: string;
@@ -16,6 +19,17 @@ interface Question {
   image_url: string;
   options: string[];
   correct_answer: string;
+  accepted_variants: Record<string, string[]>;
+  match_threshold: number | null;
+  confirm_threshold: number | null;
+  audio_url: string | null;
+  option_audio: Record<string, string>;
+}
+
+interface ShadowingSentence {
+  id?: string;
+  sentence: string;
+  position: number;
 }
 
 export default function LevelEditPage() {
@@ -29,18 +43,31 @@ export default function LevelEditPage() {
     level_number: 0,
     title: '',
     theme: '',
+    language: DEFAULT_LANGUAGE as string,
     image_url: '',
+    match_threshold: 0.7,
+    confirm_threshold: 0.5,
+    max_mistakes: 3 as number | null,
+    pass_mark: 0,
+    time_limit_seconds: null as number | null,
+    question_count: null as number | null,
   });
   const [questions, setQuestions] = useState<Question[]>([]);
   const [deleteModal, setDeleteModal] = useState<{ open: boolean; questionId: string | null }>({
     open: false,
     questionId: null,
   });
+  const [sentences, setSentences] = useState<ShadowingSentence[]>([]);
+  const [deleteSentenceModal, setDeleteSentenceModal] = useState<{ open: boolean; sentenceId: string | null }>({
+    open: false,
+    sentenceId: null,
+  });
 
   useEffect(() => {
     if (!isNew && levelId) {
       fetchLevel();
       fetchQuestions();
+      fetchSentences();
     }
   }, [levelId, isNew]);
 
@@ -72,12 +99,27 @@ export default function LevelEditPage() {
         .eq('level_id', levelId);
 
       if (error) throw error;
-      setQuestions(data || []);
+      setQuestions((data as Question[]) || []);
     } catch (error) {
       console.error('Error fetching questions:', error);
     }
   };
 
+  const fetchSentences = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('shadowing_sentences')
+        .select('id, sentence, position')
+        .eq('level_id', levelId)
+        .order('position');
+
+      if (error) throw error;
+      setSentences(data || []);
+    } catch (error) {
+      console.error('Error fetching shadowing sentences:', error);
+    }
+  };
+
   const handleSaveLevel = async () => {
     setLoading(true);
     try {
@@ -128,6 +170,11 @@ export default function LevelEditPage() {
         image_url: '',
         options: ['', '', '', ''],
         correct_answer: '',
+        accepted_variants: {},
+        match_threshold: null,
+        confirm_threshold: null,
+        audio_url: null,
+        option_audio: {},
       },
     ]);
   };
@@ -140,12 +187,74 @@ export default function LevelEditPage() {
 
   const handleUpdateOption = (questionIndex: number, optionIndex: number, value: string) => {
     const updated = [...questions];
-    updated[questionIndex].options[optionIndex] = value;
+    const question = updated[questionIndex];
+    const previous = question.options[optionIndex];
+
+    // Variants and recordings are keyed by option text, so carry them over to the new text
+    const { [previous]: variants, ...otherVariants } = question.accepted_variants;
+    const { [previous]: audioUrl, ...otherAudio } = question.option_audio;
+    updated[questionIndex] = {
+      ...question,
+      options: question.options.map((option, index) => (index === optionIndex ? value : option)),
+      accepted_variants: variants ? { ...otherVariants, [value]: variants } : otherVariants,
+      option_audio: audioUrl ? { ...otherAudio, [value]: audioUrl } : otherAudio,
+    };
     setQuestions(updated);
   };
 
+  const handleUpdateVariants = (questionIndex: number, option: string, value: string) => {
+    const updated = [...questions];
+    const variants = value.split(/;\s*/);
+    updated[questionIndex] = {
+      ...updated[questionIndex],
+      accepted_variants: { ...updated[questionIndex].accepted_variants, [option]: variants },
+    };
+    setQuestions(updated);
+  };
+
+  const handleUpdateOptionAudio = (questionIndex: number, option: string, url: string | null) => {
+    const updated = [...questions];
+    const { [option]: _previous, ...otherAudio } = updated[questionIndex].option_audio;
+    updated[questionIndex] = {
+      ...updated[questionIndex],
+      option_audio: url ? { ...otherAudio, [option]: url } : otherAudio,
+    };
+    setQuestions(updated);
+  };
+
+  // Drops recordings left behind by options that were renamed away or cleared
+  const cleanOptionAudio = (question: Question) => {
+    const cleaned: Record<string, string> = {};
+    for (const option of question.options) {
+      if (question.option_audio[option]) cleaned[option] = question.option_audio[option];
+    }
+    return cleaned;
+  };
+
+  const cleanVariants = (question: Question) => {
+    const cleaned: Record<string, string[]> = {};
+    for (const option of question.options) {
+      const variants = (question.accepted_variants[option] ?? []).map((variant) => variant.trim()).filter(Boolean);
+      if (variants.length > 0) cleaned[option] = variants;
+    }
+    return cleaned;
+  };
+
   const handleSaveQuestion = async (index: number) => {
     const question = questions[index];
+
+    // Overrides fall back to the level's values, so check the pair that will actually apply
+    const matchThreshold = question.match_threshold ?? level.match_threshold;
+    const confirmThreshold = question.confirm_threshold ?? level.confirm_threshold;
+    if (confirmThreshold > matchThreshold) {
+      toast({
+        title: 'Error',
+        description: `Confirm threshold (${confirmThreshold}) cannot be higher than the accept threshold (${matchThreshold})`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -157,6 +266,11 @@ export default function LevelEditPage() {
             image_url: question.image_url,
             options: question.options,
             correct_answer: question.correct_answer,
+            accepted_variants: cleanVariants(question),
+            match_threshold: question.match_threshold,
+            confirm_threshold: question.confirm_threshold,
+            audio_url: question.audio_url,
+            option_audio: cleanOptionAudio(question),
           })
           .eq('id', question.id);
 
@@ -170,6 +284,11 @@ export default function LevelEditPage() {
             image_url: question.image_url,
             options: question.options,
             correct_answer: question.correct_answer,
+            accepted_variants: cleanVariants(question),
+            match_threshold: question.match_threshold,
+            confirm_threshold: question.confirm_threshold,
+            audio_url: question.audio_url,
+            option_audio: cleanOptionAudio(question),
           }]);
 
         if (error) throw error;
@@ -220,6 +339,82 @@ export default function LevelEditPage() {
     }
   };
 
+  const handleAddSentence = () => {
+    const lastPosition = sentences.length > 0 ? sentences[sentences.length - 1].position : 0;
+    setSentences([...sentences, { sentence: '', position: lastPosition + 1 }]);
+  };
+
+  const handleUpdateSentence = (index: number, value: string) => {
+    const updated = [...sentences];
+    updated[index] = { ...updated[index], sentence: value };
+    setSentences(updated);
+  };
+
+  const handleSaveSentence = async (index: number) => {
+    const sentence = sentences[index];
+    setLoading(true);
+
+    try {
+      if (sentence.id) {
+        const { error } = await supabase
+          .from('shadowing_sentences')
+          .update({ sentence: sentence.sentence.trim(), position: sentence.position })
+          .eq('id', sentence.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('shadowing_sentences')
+          .insert([{ level_id: levelId, sentence: sentence.sentence.trim(), position: sentence.position }]);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Sentence saved successfully',
+      });
+      fetchSentences();
+    } catch (error) {
+      console.error('Error saving shadowing sentence:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save sentence',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteSentence = async () => {
+    if (!deleteSentenceModal.sentenceId) return;
+
+    try {
+      const { error } = await supabase
+        .from('shadowing_sentences')
+        .delete()
+        .eq('id', deleteSentenceModal.sentenceId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Sentence deleted successfully',
+      });
+      fetchSentences();
+    } catch (error) {
+      console.error('Error deleting shadowing sentence:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete sentence',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleteSentenceModal({ open: false, sentenceId: null });
+    }
+  };
+
   return (
     <div className="p-8">
       <Button variant="ghost" onClick={() => navigate('/admin/levels')} className="mb-6">
@@ -263,6 +458,24 @@ export default function LevelEditPage() {
               onChange={(e) => setLevel({ ...level, theme: e.target.value })}
             />
           </div>
+          <div>
+            <Label htmlFor="language">Language</Label>
+            <Select value={level.language} onValueChange={(value) => setLevel({ ...level, language: value })}>
+              <SelectTrigger id="language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LANGUAGES.map((language) => (
+                  <SelectItem key={language.code} value={language.code}>
+                    {language.label} ({language.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="mt-1 text-xs text-muted-foreground">
+              The course this level belongs to; sets the recognition language and voice.
+            </p>
+          </div>
           <div>
             <Label htmlFor="image_url">Image URL</Label>
             <Input
@@ -271,6 +484,103 @@ export default function LevelEditPage() {
               onChange={(e) => setLevel({ ...level, image_url: e.target.value })}
             />
           </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="match_threshold">Accept Threshold</Label>
+              <Input
+                id="match_threshold"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={level.match_threshold}
+                onChange={(e) => setLevel({ ...level, match_threshold: parseFloat(e.target.value) })}
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Spoken answers scoring at least this are submitted directly.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="confirm_threshold">Confirm Threshold</Label>
+              <Input
+                id="confirm_threshold"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={level.confirm_threshold}
+                onChange={(e) => setLevel({ ...level, confirm_threshold: parseFloat(e.target.value) })}
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Scores between the two thresholds ask "Did you mean...?" first.
+              </p>
+            </div>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="max_mistakes">Mistake Limit</Label>
+              <Input
+                id="max_mistakes"
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={level.max_mistakes ?? ''}
+                onChange={(e) =>
+                  setLevel({ ...level, max_mistakes: e.target.value === '' ? null : parseInt(e.target.value) })
+                }
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                The quiz ends on this many mistakes. Leave empty for no limit.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="pass_mark">Pass Mark (%)</Label>
+              <Input
+                id="pass_mark"
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={level.pass_mark}
+                onChange={(e) => setLevel({ ...level, pass_mark: parseInt(e.target.value) || 0 })}
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Share of correct answers needed to complete the level and unlock the next one.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="time_limit_seconds">Time Limit (seconds)</Label>
+              <Input
+                id="time_limit_seconds"
+                type="number"
+                min={1}
+                placeholder="No time limit"
+                value={level.time_limit_seconds ?? ''}
+                onChange={(e) =>
+                  setLevel({ ...level, time_limit_seconds: e.target.value === '' ? null : parseInt(e.target.value) })
+                }
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Questions still unanswered when time runs out count against the learner.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="question_count">Questions per Quiz</Label>
+              <Input
+                id="question_count"
+                type="number"
+                min={1}
+                placeholder={`All questions (${questions.length})`}
+                value={level.question_count ?? ''}
+                onChange={(e) =>
+                  setLevel({ ...level, question_count: e.target.value === '' ? null : parseInt(e.target.value) })
+                }
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Each quiz draws this many questions from the level at random.
+              </p>
+            </div>
+          </div>
           <Button onClick={handleSaveLevel} disabled={loading}>
             {loading ? 'Saving...' : 'Save Level'}
           </Button>
@@ -312,6 +622,18 @@ export default function LevelEditPage() {
                       onChange={(e) => handleUpdateQuestion(index, 'question_text', e.target.value)}
                     />
                   </div>
+                  <div>
+                    <Label>Native Speaker Audio</Label>
+                    <p className="mb-2 text-xs text-muted-foreground">
+                      Played instead of the synthetic voice when set.
+                    </p>
+                    <AudioClipEditor
+                      levelId={levelId!}
+                      value={question.audio_url}
+                      onChange={(url) => handleUpdateQuestion(index, 'audio_url', url)}
+                      disabled={loading}
+                    />
+                  </div>
                   <div>
                     <Label>Image URL</Label>
                     <Input
@@ -322,14 +644,36 @@ export default function LevelEditPage() {
                   <div>
                     <Label>Options</Label>
                     {question.options.map((option, optionIndex) => (
-                      <Input
-                        key={optionIndex}
-                        className="mb-2"
-                        placeholder={`Option ${optionIndex + 1}`}
-                        value={option}
-                        onChange={(e) => handleUpdateOption(index, optionIndex, e.target.value)}
-                      />
+                      <div key={optionIndex} className="mb-3 space-y-1">
+                        <Input
+                          placeholder={`Option ${optionIndex + 1}`}
+                          value={option}
+                          onChange={(e) => handleUpdateOption(index, optionIndex, e.target.value)}
+                        />
+                        <Input
+                          className="h-8 text-sm"
+                          placeholder="Also accept (separate with ;) e.g. bill; the check, please"
+                          value={(question.accepted_variants[option] ?? []).join('; ')}
+                          onChange={(e) => handleUpdateVariants(index, option, e.target.value)}
+                          disabled={!option}
+                        />
+                        {option && (
+                          <AudioClipEditor
+                            levelId={levelId!}
+                            value={question.option_audio[option] ?? null}
+                            onChange={(url) => handleUpdateOptionAudio(index, option, url)}
+                            disabled={loading}
+                          />
+                        )}
+                      </div>
                     ))}
+                    {Object.keys(cleanOptionAudio(question)).length > 0 &&
+                      question.options.some((option) => !question.option_audio[option]) && (
+                        <p className="text-xs text-muted-foreground">
+                          Learners only hear option recordings once every option has one, so they cannot hint at the
+                          answer.
+                        </p>
+                      )}
                   </div>
                   <div>
                     <Label>Correct Answer</Label>
@@ -338,6 +682,36 @@ export default function LevelEditPage() {
                       onChange={(e) => handleUpdateQuestion(index, 'correct_answer', e.target.value)}
                     />
                   </div>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <Label>Accept Threshold</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        placeholder={`Level default (${level.match_threshold})`}
+                        value={question.match_threshold ?? ''}
+                        onChange={(e) =>
+                          handleUpdateQuestion(index, 'match_threshold', e.target.value === '' ? null : parseFloat(e.target.value))
+                        }
+                      />
+                    </div>
+                    <div>
+                      <Label>Confirm Threshold</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        placeholder={`Level default (${level.confirm_threshold})`}
+                        value={question.confirm_threshold ?? ''}
+                        onChange={(e) =>
+                          handleUpdateQuestion(index, 'confirm_threshold', e.target.value === '' ? null : parseFloat(e.target.value))
+                        }
+                      />
+                    </div>
+                  </div>
                   <Button onClick={() => handleSaveQuestion(index)} disabled={loading}>
                     {loading ? 'Saving...' : 'Save Question'}
                   </Button>
@@ -345,6 +719,54 @@ export default function LevelEditPage() {
               </Card>
             ))}
           </div>
+
+          <div className="mb-4 mt-10 flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold text-foreground">Shadowing Sentences</h2>
+              <p className="text-sm text-muted-foreground">
+                Model sentences the learner listens to and repeats in the shadowing drill.
+              </p>
+            </div>
+            <Button onClick={handleAddSentence}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Sentence
+            </Button>
+          </div>
+
+          <Card>
+            <CardContent className="space-y-3 pt-6">
+              {sentences.length === 0 && (
+                <p className="text-center text-muted-foreground">No shadowing sentences yet.</p>
+              )}
+              {sentences.map((sentence, index) => (
+                <div key={sentence.id || `new-${index}`} className="flex items-center gap-2">
+                  <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+                  <Input
+                    placeholder="e.g. Could I see the menu, please?"
+                    value={sentence.sentence}
+                    onChange={(e) => handleUpdateSentence(index, e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSaveSentence(index)}
+                    disabled={loading || !sentence.sentence.trim()}
+                  >
+                    Save
+                  </Button>
+                  {sentence.id && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setDeleteSentenceModal({ open: true, sentenceId: sentence.id! })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
         </>
       )}
 
@@ -355,6 +777,14 @@ export default function LevelEditPage() {
         title="Delete Question"
         description="Are you sure you want to delete this question?"
       />
+
+      <ConfirmationModal
+        open={deleteSentenceModal.open}
+        onOpenChange={(open) => setDeleteSentenceModal({ open, sentenceId: null })}
+        onConfirm={handleDeleteSentence}
+        title="Delete Sentence"
+        description="Are you sure you want to delete this shadowing sentence?"
+      />
     </div>
   );
 }
@@ -6,6 +6,7 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/componen
 import { Plus, Trash2, Edit } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { ConfirmationModal } from '@/components/ConfirmationModal';
+import { getLanguageLabel } from '@/utils/languages';
 
 interface Level {
   id: string;
@@ -13,6 +14,7 @@ interface Level {
   title: string;
   theme: string;
   image_url: string;
+  language: string;
 }
 
 export default function LevelsPage() {
@@ -112,7 +114,9 @@ export default function LevelsPage() {
               <CardTitle className="mb-2">
                 Level {level.level_number}: {level.title}
               </CardTitle>
-              <p className="text-sm text-muted-foreground">{level.theme}</p>
+              <p className="text-sm text-muted-foreground">
+                {level.theme} · {getLanguageLabel(level.language)}
+              </p>
             </CardContent>
             <CardFooter className="gap-2">
               <Button
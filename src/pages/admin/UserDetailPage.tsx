@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { SpeechAttempt, SpeechAttemptsTable, SPEECH_ATTEMPT_COLUMNS } from '@/components/SpeechAttemptsTable';
+import { FluencyTrends } from '@/components/FluencyTrends';
+import { QuizAttempt, QuizAttemptsTable, QUIZ_ATTEMPT_COLUMNS } from '@/components/QuizAttemptsTable';
+
+interface Profile {
+  id: string;
+  username: string;
+  role: string;
+  created_at: string;
+}
+
+interface Progress {
+  level_number: number;
+  status: string;
+  high_score: number;
+}
+
+export default function UserDetailPage() {
+  const { userId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [progress, setProgress] = useState<Progress[]>([]);
+  const [attempts, setAttempts] = useState<SpeechAttempt[]>([]);
+  const [quizAttempts, setQuizAttempts] = useState<QuizAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchUser();
+  }, [userId]);
+
+  const fetchUser = async () => {
+    try {
+      const [profileRes, progressRes, attemptsRes, quizAttemptsRes] = await Promise.all([
+        supabase.from('profiles').select('*').eq('id', userId).maybeSingle(),
+        supabase.from('progress').select('level_number, status, high_score').eq('user_id', userId).order('level_number'),
+        supabase
+          .from('speech_attempts')
+          .select(SPEECH_ATTEMPT_COLUMNS)
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(100),
+        supabase
+          .from('quiz_attempts')
+          .select(QUIZ_ATTEMPT_COLUMNS)
+          .eq('user_id', userId)
+          .order('started_at', { ascending: false })
+          .limit(100),
+      ]);
+
+      if (profileRes.error) throw profileRes.error;
+      if (progressRes.error) throw progressRes.error;
+      if (attemptsRes.error) throw attemptsRes.error;
+      if (quizAttemptsRes.error) throw quizAttemptsRes.error;
+
+      setProfile(profileRes.data);
+      setProgress(progressRes.data);
+      setAttempts(attemptsRes.data as SpeechAttempt[]);
+      setQuizAttempts(quizAttemptsRes.data as QuizAttempt[]);
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch user',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <Button variant="ghost" onClick={() => navigate('/admin/users')} className="mb-6">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to Users
+      </Button>
+
+      <div className="mb-8 flex items-center gap-3">
+        <h1 className="text-3xl font-bold text-foreground">{profile?.username ?? 'Unknown user'}</h1>
+        {profile && (
+          <Badge variant={profile.role === 'admin' ? 'default' : 'secondary'}>{profile.role}</Badge>
+        )}
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Progress</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Level</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">High Score</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {progress.map((entry) => (
+                <TableRow key={entry.level_number}>
+                  <TableCell>Level {entry.level_number}</TableCell>
+                  <TableCell className="capitalize">{entry.status}</TableCell>
+                  <TableCell className="text-right">{entry.high_score}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Quiz History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <QuizAttemptsTable attempts={quizAttempts} />
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Fluency Trends</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <FluencyTrends attempts={attempts} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spoken Attempts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SpeechAttemptsTable attempts={attempts} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+// Helpers for trimming recorded clips in the browser before upload. Clips are
+// decoded with the Web Audio API and re-encoded as 16-bit PCM WAV, which every
+// browser can play back.
+
+export const decodeAudio = async (audio: Blob): Promise<AudioBuffer> => {
+  const audioContext = new AudioContext();
+  try {
+    return await audioContext.decodeAudioData(await audio.arrayBuffer());
+  } finally {
+    audioContext.close();
+  }
+};
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+export const encodeWav = (buffer: AudioBuffer, startSample = 0, endSample = buffer.length): Blob => {
+  const channels = buffer.numberOfChannels;
+  const frames = Math.max(endSample - startSample, 0);
+  const dataSize = frames * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = 44;
+  for (let frame = startSample; frame < startSample + frames; frame++) {
+    for (const samples of channelData) {
+      const sample = Math.max(-1, Math.min(1, samples[frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+// Keeps the part of the clip between startSeconds and endSeconds
+export const trimAudio = (buffer: AudioBuffer, startSeconds: number, endSeconds: number): Blob => {
+  const start = Math.max(0, Math.floor(startSeconds * buffer.sampleRate));
+  const end = Math.min(buffer.length, Math.ceil(endSeconds * buffer.sampleRate));
+  return encodeWav(buffer, start, end);
+};
@@ -0,0 +1,58 @@
+import { getMicrophoneConstraints } from './microphone';
+
+export interface AudioRecorder {
+  start: () => Promise<void>;
+  stop: () => Promise<Blob | null>;
+}
+
+export const isAudioRecordingSupported = (): boolean => {
+  return !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+};
+
+// Records the microphone alongside speech recognition so every attempt can
+// be replayed later. stop() resolves with null when nothing was captured.
+export const createAudioRecorder = (): AudioRecorder => {
+  let mediaRecorder: MediaRecorder | null = null;
+  let starting: Promise<void> | null = null;
+  let chunks: Blob[] = [];
+
+  const open = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: getMicrophoneConstraints() });
+    chunks = [];
+    mediaRecorder = new MediaRecorder(stream);
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    mediaRecorder.start();
+  };
+
+  return {
+    start: () => {
+      if (isAudioRecordingSupported() && !mediaRecorder && !starting) {
+        starting = open().finally(() => {
+          starting = null;
+        });
+      }
+      return starting ?? Promise.resolve();
+    },
+    stop: async () => {
+      // A stop right after start() waits for the microphone to open first
+      await starting?.catch(() => undefined);
+
+      const recorder = mediaRecorder;
+      mediaRecorder = null;
+
+      if (!recorder || recorder.state === 'inactive') {
+        return null;
+      }
+
+      return new Promise<Blob | null>((resolve) => {
+        recorder.onstop = () => {
+          recorder.stream.getTracks().forEach((track) => track.stop());
+          resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder.mimeType }) : null);
+        };
+        recorder.stop();
+      });
+    },
+  };
+};
@@ -0,0 +1,90 @@
+// Fluency measurements for a spoken answer, derived from timestamps taken
+// while the question is read out and the learner answers. Times are
+// milliseconds since the epoch; missing timestamps give missing metrics.
+
+export interface FluencyTimings {
+  // When the question prompt finished (or was cut off)
+  promptEndedAt: number | null;
+  speechStartedAt: number | null;
+  speechEndedAt: number | null;
+}
+
+export interface FluencyMetrics {
+  responseLatencyMs: number | null;
+  utteranceDurationMs: number | null;
+  wordsPerMinute: number | null;
+}
+
+// Speaking rate is only meaningful for sentences, not one-word answers
+export const SENTENCE_MIN_WORDS = 3;
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+export const measureFluency = (timings: FluencyTimings, transcript: string | null): FluencyMetrics => {
+  const { promptEndedAt, speechStartedAt, speechEndedAt } = timings;
+
+  // Answering while the question is still being read counts as no delay
+  const responseLatencyMs =
+    promptEndedAt !== null && speechStartedAt !== null ? Math.max(speechStartedAt - promptEndedAt, 0) : null;
+  const utteranceDurationMs =
+    speechStartedAt !== null && speechEndedAt !== null && speechEndedAt > speechStartedAt
+      ? speechEndedAt - speechStartedAt
+      : null;
+
+  const words = transcript ? countWords(transcript) : 0;
+  const wordsPerMinute =
+    utteranceDurationMs && words >= SENTENCE_MIN_WORDS
+      ? Math.round((words / (utteranceDurationMs / 60000)) * 10) / 10
+      : null;
+
+  return { responseLatencyMs, utteranceDurationMs, wordsPerMinute };
+};
+
+export interface FluencyAttempt {
+  created_at: string;
+  is_correct: boolean | null;
+  response_latency_ms: number | null;
+  words_per_minute: number | null;
+  retries: number;
+  input_mode?: string;
+}
+
+export interface FluencyTrendPoint {
+  date: string;
+  accuracy: number | null;
+  latency: number | null;
+  wordsPerMinute: number | null;
+  retries: number | null;
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// Daily averages, oldest first. Latency is reported in seconds and accuracy
+// as a percentage of the attempts that matched an option. Typed answers say
+// nothing about speaking and are left out.
+export const getFluencyTrend = (attempts: FluencyAttempt[]): FluencyTrendPoint[] => {
+  const days = new Map<string, FluencyAttempt[]>();
+
+  for (const attempt of attempts.filter((attempt) => attempt.input_mode !== 'typed')) {
+    const date = attempt.created_at.slice(0, 10);
+    days.set(date, [...(days.get(date) ?? []), attempt]);
+  }
+
+  return Array.from(days)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayAttempts]) => {
+      const graded = dayAttempts.filter((attempt) => attempt.is_correct !== null);
+      const accuracy = average(graded.map((attempt) => (attempt.is_correct ? 100 : 0)));
+      const latency = average(
+        dayAttempts.flatMap((attempt) => (attempt.response_latency_ms === null ? [] : [attempt.response_latency_ms / 1000]))
+      );
+      const wordsPerMinute = average(
+        dayAttempts.flatMap((attempt) => (attempt.words_per_minute === null ? [] : [Number(attempt.words_per_minute)]))
+      );
+      // Retries only mean something on the attempt that got the answer right
+      const retries = average(dayAttempts.filter((attempt) => attempt.is_correct).map((attempt) => attempt.retries));
+
+      return { date, accuracy, latency, wordsPerMinute, retries };
+    });
+};
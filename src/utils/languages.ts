@@ -0,0 +1,23 @@
+// Target languages a course can teach. The code is the BCP 47 locale handed to
+// the recognizer and the speech synthesizer.
+export const LANGUAGES = [
+  { code: 'en-US', label: 'English' },
+  { code: 'es-ES', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+] as const;
+
+export type CourseLanguage = (typeof LANGUAGES)[number]['code'];
+
+export const DEFAULT_LANGUAGE: CourseLanguage = 'en-US';
+
+export const isCourseLanguage = (code: string | null | undefined): code is CourseLanguage =>
+  LANGUAGES.some((language) => language.code === code);
+
+// Unknown or missing codes (e.g. rows from before courses existed) are English
+export const toCourseLanguage = (code: string | null | undefined): CourseLanguage =>
+  isCourseLanguage(code) ? code : DEFAULT_LANGUAGE;
+
+export const getLanguageLabel = (code: string): string =>
+  LANGUAGES.find((language) => language.code === code)?.label ?? code;
+
+export const isEnglish = (code: string): boolean => code.startsWith('en');
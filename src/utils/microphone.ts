@@ -0,0 +1,23 @@
+const MICROPHONE_KEY = 'speech.microphoneId';
+
+export const getPreferredMicrophone = (): string | null => localStorage.getItem(MICROPHONE_KEY);
+
+export const setPreferredMicrophone = (deviceId: string | null) => {
+  if (deviceId) {
+    localStorage.setItem(MICROPHONE_KEY, deviceId);
+  } else {
+    localStorage.removeItem(MICROPHONE_KEY);
+  }
+};
+
+// Audio constraints for getUserMedia honouring the microphone picked on the
+// mic check page. The Web Speech engine always uses the system default input.
+export const getMicrophoneConstraints = (deviceId = getPreferredMicrophone()): MediaTrackConstraints | boolean => {
+  return deviceId ? { deviceId: { exact: deviceId } } : true;
+};
+
+// Device labels are only exposed once microphone permission has been granted
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'audioinput');
+};
@@ -0,0 +1,280 @@
+// Phonetic pronunciation scoring. Text is mapped to ARPAbet phonemes using the
+// CMU pronouncing dictionary (bundled, loaded on first use) with letter-to-sound
+// rules as a fallback, then the spoken and expected sequences are aligned so
+// every expected phoneme gets its own score.
+
+import {
+  NormalizationStep,
+  expandContractions,
+  normalizeSpeech,
+  removePunctuation,
+  stripArticles,
+  stripFillers,
+  toLowerCase,
+} from './textNormalization';
+
+export type Phoneme = string;
+
+export type AlignmentOperation = 'match' | 'substitution' | 'deletion' | 'insertion';
+
+export interface AlignedPhoneme {
+  expected: Phoneme | null;
+  spoken: Phoneme | null;
+  operation: AlignmentOperation;
+  score: number;
+}
+
+export interface PronunciationScore {
+  expectedPhonemes: Phoneme[];
+  spokenPhonemes: Phoneme[];
+  expectedIpa: string;
+  spokenIpa: string;
+  alignment: AlignedPhoneme[];
+  score: number;
+}
+
+type PronouncingDictionary = Record<string, string>;
+
+const IPA: Record<string, string> = {
+  AA: 'ɑ', AE: 'æ', AH: 'ʌ', AO: 'ɔ', AW: 'aʊ', AY: 'aɪ', EH: 'ɛ', ER: 'ɝ', EY: 'eɪ',
+  IH: 'ɪ', IY: 'i', OW: 'oʊ', OY: 'ɔɪ', UH: 'ʊ', UW: 'u',
+  B: 'b', CH: 'tʃ', D: 'd', DH: 'ð', F: 'f', G: 'ɡ', HH: 'h', JH: 'dʒ', K: 'k', L: 'l',
+  M: 'm', N: 'n', NG: 'ŋ', P: 'p', R: 'r', S: 's', SH: 'ʃ', T: 't', TH: 'θ', V: 'v',
+  W: 'w', Y: 'j', Z: 'z', ZH: 'ʒ',
+};
+
+// Unstressed variants that are written differently in IPA
+const UNSTRESSED_IPA: Record<string, string> = { AH0: 'ə', ER0: 'ər' };
+
+const PHONEME_CLASSES: Record<string, Phoneme[]> = {
+  vowel: ['AA', 'AE', 'AH', 'AO', 'AW', 'AY', 'EH', 'ER', 'EY', 'IH', 'IY', 'OW', 'OY', 'UH', 'UW'],
+  stop: ['P', 'B', 'T', 'D', 'K', 'G'],
+  fricative: ['F', 'V', 'TH', 'DH', 'S', 'Z', 'SH', 'ZH', 'HH'],
+  affricate: ['CH', 'JH'],
+  nasal: ['M', 'N', 'NG'],
+  liquid: ['L', 'R'],
+  glide: ['W', 'Y'],
+};
+
+const VOICING_PAIRS = [
+  ['P', 'B'], ['T', 'D'], ['K', 'G'], ['F', 'V'], ['S', 'Z'], ['SH', 'ZH'], ['TH', 'DH'], ['CH', 'JH'],
+];
+
+const GAP_COST = 0.8;
+
+// Drop filler and articles but keep the words as spoken (no spelling or
+// number rewriting, which would change what gets pronounced)
+const SPOKEN_TEXT_PIPELINE: NormalizationStep[] = [
+  toLowerCase,
+  removePunctuation,
+  expandContractions,
+  stripFillers,
+  stripArticles,
+];
+
+// Ordered so longer graphemes win over their prefixes
+const LETTER_TO_SOUND: [string, Phoneme[]][] = [
+  ['tion', ['SH', 'AH', 'N']],
+  ['sion', ['ZH', 'AH', 'N']],
+  ['igh', ['AY']],
+  ['tch', ['CH']],
+  ['dge', ['JH']],
+  ['ch', ['CH']],
+  ['sh', ['SH']],
+  ['th', ['TH']],
+  ['ph', ['F']],
+  ['wh', ['W']],
+  ['ck', ['K']],
+  ['ng', ['NG']],
+  ['qu', ['K', 'W']],
+  ['ee', ['IY']],
+  ['ea', ['IY']],
+  ['oo', ['UW']],
+  ['ai', ['EY']],
+  ['ay', ['EY']],
+  ['oa', ['OW']],
+  ['ou', ['AW']],
+  ['ow', ['OW']],
+  ['oi', ['OY']],
+  ['oy', ['OY']],
+  ['au', ['AO']],
+  ['aw', ['AO']],
+  ['er', ['ER']],
+  ['ir', ['ER']],
+  ['ur', ['ER']],
+  ['ar', ['AA', 'R']],
+  ['or', ['AO', 'R']],
+  ['a', ['AE']],
+  ['b', ['B']],
+  ['c', ['K']],
+  ['d', ['D']],
+  ['e', ['EH']],
+  ['f', ['F']],
+  ['g', ['G']],
+  ['h', ['HH']],
+  ['i', ['IH']],
+  ['j', ['JH']],
+  ['k', ['K']],
+  ['l', ['L']],
+  ['m', ['M']],
+  ['n', ['N']],
+  ['o', ['AA']],
+  ['p', ['P']],
+  ['q', ['K']],
+  ['r', ['R']],
+  ['s', ['S']],
+  ['t', ['T']],
+  ['u', ['AH']],
+  ['v', ['V']],
+  ['w', ['W']],
+  ['x', ['K', 'S']],
+  ['y', ['Y']],
+  ['z', ['Z']],
+];
+
+let dictionaryPromise: Promise<PronouncingDictionary> | null = null;
+
+export const loadPronouncingDictionary = (): Promise<PronouncingDictionary> => {
+  if (!dictionaryPromise) {
+    dictionaryPromise = import('cmu-pronouncing-dictionary').then((module) => module.dictionary);
+  }
+  return dictionaryPromise;
+};
+
+const stripStress = (phoneme: string): Phoneme => phoneme.replace(/\d/g, '');
+
+// Rough English spelling rules for words missing from the dictionary
+export const letterToSound = (word: string): Phoneme[] => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  const phonemes: Phoneme[] = [];
+  let index = 0;
+
+  while (index < letters.length) {
+    const rest = letters.slice(index);
+    const next = letters[index + 1];
+
+    if (rest === 'e' && index > 0) break; // silent final e
+    if (rest === 'y' && index > 0) {
+      phonemes.push('IY');
+      break;
+    }
+    if (letters[index] === 'c' && next && 'eiy'.includes(next)) {
+      phonemes.push('S');
+      index += 1;
+      continue;
+    }
+    if (letters[index] === next && !'aeiou'.includes(next)) {
+      index += 1; // double consonants sound once
+      continue;
+    }
+
+    const [grapheme, sounds] = LETTER_TO_SOUND.find(([candidate]) => rest.startsWith(candidate))!;
+    phonemes.push(...sounds);
+    index += grapheme.length;
+  }
+
+  return phonemes;
+};
+
+const wordToArpabet = (word: string, dictionary: PronouncingDictionary): string[] => {
+  const entry = dictionary[word.toLowerCase()];
+  return entry ? entry.split(' ') : letterToSound(word);
+};
+
+export const phonemeToIpa = (phoneme: Phoneme): string => IPA[stripStress(phoneme)] ?? phoneme;
+
+export const toIpa = (arpabet: string[]): string =>
+  arpabet.map((phoneme) => UNSTRESSED_IPA[phoneme] ?? IPA[stripStress(phoneme)] ?? '').join('');
+
+const textToArpabet = (text: string, dictionary: PronouncingDictionary): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z']+/)
+    .filter(Boolean)
+    .flatMap((word) => wordToArpabet(word, dictionary));
+
+export const toPhonemes = async (text: string): Promise<Phoneme[]> => {
+  const dictionary = await loadPronouncingDictionary();
+  return textToArpabet(text, dictionary).map(stripStress);
+};
+
+const phonemeClass = (phoneme: Phoneme) =>
+  Object.keys(PHONEME_CLASSES).find((name) => PHONEME_CLASSES[name].includes(phoneme));
+
+// 1 for identical phonemes, partial credit for near misses such as a voicing
+// slip (/s/ for /z/) or a vowel swapped for another vowel
+export const phonemeSimilarity = (a: Phoneme, b: Phoneme): number => {
+  if (a === b) return 1;
+  if (VOICING_PAIRS.some(([x, y]) => (a === x && b === y) || (a === y && b === x))) return 0.6;
+  if (phonemeClass(a) === phonemeClass(b)) return 0.4;
+  return 0;
+};
+
+// Needleman-Wunsch global alignment of the expected and spoken sequences
+export const alignPhonemes = (expected: Phoneme[], spoken: Phoneme[]): AlignedPhoneme[] => {
+  const rows = expected.length + 1;
+  const cols = spoken.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 1; i < rows; i++) cost[i][0] = i * GAP_COST;
+  for (let j = 1; j < cols; j++) cost[0][j] = j * GAP_COST;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + 1 - phonemeSimilarity(expected[i - 1], spoken[j - 1]),
+        cost[i - 1][j] + GAP_COST,
+        cost[i][j - 1] + GAP_COST
+      );
+    }
+  }
+
+  const alignment: AlignedPhoneme[] = [];
+  let i = expected.length;
+  let j = spoken.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const similarity = phonemeSimilarity(expected[i - 1], spoken[j - 1]);
+      if (Math.abs(cost[i][j] - (cost[i - 1][j - 1] + 1 - similarity)) < 1e-9) {
+        alignment.unshift({
+          expected: expected[i - 1],
+          spoken: spoken[j - 1],
+          operation: similarity === 1 ? 'match' : 'substitution',
+          score: similarity,
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && Math.abs(cost[i][j] - (cost[i - 1][j] + GAP_COST)) < 1e-9) {
+      alignment.unshift({ expected: expected[i - 1], spoken: null, operation: 'deletion', score: 0 });
+      i--;
+    } else {
+      alignment.unshift({ expected: null, spoken: spoken[j - 1], operation: 'insertion', score: 0 });
+      j--;
+    }
+  }
+
+  return alignment;
+};
+
+export const scorePronunciation = async (spokenText: string, expectedText: string): Promise<PronunciationScore> => {
+  const dictionary = await loadPronouncingDictionary();
+  const expectedArpabet = textToArpabet(normalizeSpeech(expectedText, SPOKEN_TEXT_PIPELINE), dictionary);
+  const spokenArpabet = textToArpabet(normalizeSpeech(spokenText, SPOKEN_TEXT_PIPELINE), dictionary);
+  const expectedPhonemes = expectedArpabet.map(stripStress);
+  const spokenPhonemes = spokenArpabet.map(stripStress);
+  const alignment = alignPhonemes(expectedPhonemes, spokenPhonemes);
+  const total = alignment.reduce((sum, phoneme) => sum + phoneme.score, 0);
+
+  return {
+    expectedPhonemes,
+    spokenPhonemes,
+    expectedIpa: toIpa(expectedArpabet),
+    spokenIpa: toIpa(spokenArpabet),
+    alignment,
+    score: alignment.length > 0 ? total / alignment.length : 0,
+  };
+};
@@ -0,0 +1,135 @@
+// Pitch (F0) tracking and intonation comparison. Each frame's pitch is found
+// by autocorrelation; contours are then expressed in semitones relative to the
+// speaker's own median pitch, so a low and a high voice saying a sentence
+// with the same melody produce the same contour.
+
+export interface PitchPoint {
+  time: number;
+  // null for unvoiced frames (silence, consonants, noise)
+  frequency: number | null;
+}
+
+export interface IntonationComparison {
+  // 0-100, how closely the learner's melody follows the model
+  score: number;
+  model: number[];
+  learner: number[];
+}
+
+const MIN_FREQUENCY = 70;
+const MAX_FREQUENCY = 500;
+const FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.01;
+// Frames quieter than this (RMS) are treated as silence
+const SILENCE_RMS = 0.01;
+// Normalized autocorrelation needed to call a frame voiced
+const MIN_CLARITY = 0.6;
+const CONTOUR_POINTS = 60;
+
+// Estimates the fundamental frequency of one frame, or null if it is unvoiced
+export const detectPitch = (frame: Float32Array, sampleRate: number): number | null => {
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  if (Math.sqrt(energy / frame.length) < SILENCE_RMS) return null;
+
+  const minLag = Math.floor(sampleRate / MAX_FREQUENCY);
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_FREQUENCY), frame.length - 1);
+  const correlations = new Float32Array(maxLag + 2);
+
+  for (let lag = minLag - 1; lag <= maxLag + 1 && lag < frame.length; lag++) {
+    let sum = 0;
+    for (let i = 0; i < frame.length - lag; i++) sum += frame[i] * frame[i + lag];
+    correlations[lag] = sum;
+  }
+
+  let bestLag = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (bestLag === -1 || correlations[lag] > correlations[bestLag]) bestLag = lag;
+  }
+  if (bestLag <= 0) return null;
+
+  // Longer lags overlap fewer samples, so scale back up before judging clarity
+  const clarity = (correlations[bestLag] / energy) * (frame.length / (frame.length - bestLag));
+  if (clarity < MIN_CLARITY) return null;
+
+  // Parabolic interpolation around the peak for sub-sample precision
+  const [previous, peak, next] = [correlations[bestLag - 1], correlations[bestLag], correlations[bestLag + 1]];
+  const curvature = previous - 2 * peak + next;
+  const shift = curvature === 0 ? 0 : (previous - next) / (2 * curvature);
+
+  return sampleRate / (bestLag + shift);
+};
+
+export const extractPitchContour = (buffer: AudioBuffer): PitchPoint[] => {
+  const samples = buffer.getChannelData(0);
+  const frameLength = Math.round(FRAME_SECONDS * buffer.sampleRate);
+  const hop = Math.round(HOP_SECONDS * buffer.sampleRate);
+  const contour: PitchPoint[] = [];
+
+  for (let start = 0; start + frameLength <= samples.length; start += hop) {
+    contour.push({
+      time: start / buffer.sampleRate,
+      frequency: detectPitch(samples.subarray(start, start + frameLength), buffer.sampleRate),
+    });
+  }
+
+  return contour;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Semitones relative to the median voiced pitch, trimmed to the voiced span,
+// with unvoiced gaps filled in linearly and stretched to a fixed length
+export const normalizeContour = (contour: PitchPoint[], points = CONTOUR_POINTS): number[] => {
+  const voiced = contour.flatMap((point, index) => (point.frequency === null ? [] : [{ index, frequency: point.frequency }]));
+  if (voiced.length < 2) return [];
+
+  const reference = median(voiced.map((point) => point.frequency));
+  const first = voiced[0].index;
+  const last = voiced[voiced.length - 1].index;
+  const semitones = voiced.map((point) => ({
+    position: (point.index - first) / (last - first),
+    value: 12 * Math.log2(point.frequency / reference),
+  }));
+
+  return Array.from({ length: points }, (_, i) => {
+    const position = i / (points - 1);
+    const after = semitones.findIndex((point) => point.position >= position);
+    if (after <= 0) return semitones[Math.max(after, 0)].value;
+
+    const before = semitones[after - 1];
+    const next = semitones[after];
+    const ratio = (position - before.position) / (next.position - before.position);
+    return before.value + (next.value - before.value) * ratio;
+  });
+};
+
+const correlation = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+
+  return varianceA === 0 || varianceB === 0 ? 0 : covariance / Math.sqrt(varianceA * varianceB);
+};
+
+// Scores the shape of the two melodies: rising where the model rises and
+// falling where it falls. A flat or opposite contour scores 0.
+export const compareIntonation = (model: PitchPoint[], learner: PitchPoint[]): IntonationComparison | null => {
+  const modelContour = normalizeContour(model);
+  const learnerContour = normalizeContour(learner);
+  if (modelContour.length === 0 || learnerContour.length === 0) return null;
+
+  const score = Math.round(Math.max(correlation(modelContour, learnerContour), 0) * 100);
+  return { score, model: modelContour, learner: learnerContour };
+};
@@ -0,0 +1,20 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const QUESTION_AUDIO_BUCKET = 'question-audio';
+
+// Recording URLs keyed by option text, e.g. { Waiter: 'https://.../waiter.wav' }
+export type OptionAudio = Record<string, string>;
+
+// Uploads a native speaker recording and returns its public URL
+export const uploadQuestionAudio = async (levelId: string, audio: Blob): Promise<string> => {
+  const extension = audio.type === 'audio/wav' ? 'wav' : audio.type.includes('mpeg') ? 'mp3' : 'webm';
+  const path = `${levelId}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(QUESTION_AUDIO_BUCKET)
+    .upload(path, audio, { contentType: audio.type });
+
+  if (error) throw error;
+
+  return supabase.storage.from(QUESTION_AUDIO_BUCKET).getPublicUrl(path).data.publicUrl;
+};
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+import { InputMode } from './speechAttempts';
+
+// Clicking an option is only possible per answer, not as a quiz mode
+export type AnswerInputMode = InputMode | 'clicked';
+
+export interface AnswerDetails {
+  inputMode: AnswerInputMode;
+  // What was heard or typed, with its 0-1 similarity to the chosen option
+  transcript: string | null;
+  similarity: number | null;
+}
+
+export interface AnswerResult {
+  // The option the answer was resolved to
+  answer: string;
+  isCorrect: boolean;
+  correctAnswer: string;
+}
+
+export interface QuizAttemptSummary {
+  passed: boolean;
+  score: number;
+  mistakes: number;
+  // The level a pass unlocked, if the course has one after this
+  nextLevelNumber: number | null;
+}
+
+export interface StartedQuizAttempt {
+  id: string;
+  // The questions the database drew for this run, in the order to ask them
+  questionIds: string[];
+}
+
+export const CLICKED_ANSWER: AnswerDetails = { inputMode: 'clicked', transcript: null, similarity: null };
+
+export const startQuizAttempt = async (userId: string, levelId: string, mode: InputMode): Promise<StartedQuizAttempt> => {
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .insert([{ user_id: userId, level_id: levelId, mode }])
+    .select('id, question_ids')
+    .single();
+
+  if (error) throw error;
+  return { id: data.id, questionIds: data.question_ids };
+};
+
+// Answers are graded and recorded by the database; the correct answer is
+// never sent to the browser before the learner has committed to one. The
+// answer may also be another phrasing of an option, which only the database
+// can resolve; null means it matched no option and nothing was recorded.
+export const submitAnswer = async (
+  attemptId: string,
+  questionId: string,
+  answer: string,
+  details: AnswerDetails
+): Promise<AnswerResult | null> => {
+  const { data, error } = await supabase.rpc('submit_answer', {
+    _attempt_id: attemptId,
+    _question_id: questionId,
+    _answer: answer,
+    _input_mode: details.inputMode,
+    _transcript: details.transcript ?? undefined,
+    _similarity: details.similarity === null ? undefined : Math.round(details.similarity * 1000) / 1000,
+  });
+
+  if (error) throw error;
+
+  const [result] = data;
+  if (!result) return null;
+  return { answer: result.answer, isCorrect: result.is_correct, correctAnswer: result.correct_answer };
+};
+
+// Ends the run. The database decides the outcome from the answers it graded
+// and updates the learner's progress.
+export const completeQuizAttempt = async (attemptId: string): Promise<QuizAttemptSummary> => {
+  const { data, error } = await supabase.rpc('complete_quiz_attempt', { _attempt_id: attemptId });
+
+  if (error) throw error;
+
+  const [result] = data;
+  if (!result) throw new Error('Quiz attempt not found');
+  return {
+    passed: result.outcome === 'passed',
+    score: result.score,
+    mistakes: result.mistakes,
+    nextLevelNumber: result.next_level_number,
+  };
+};
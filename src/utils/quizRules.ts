@@ -0,0 +1,28 @@
+// How a level's quiz is run, as configured per level by admins
+export interface QuizRules {
+  // The quiz ends on this many mistakes; null for no limit
+  max_mistakes: number | null;
+  // Percentage of correct answers needed to pass
+  pass_mark: number;
+  time_limit_seconds: number | null;
+  // Questions drawn from the level's pool; null for all of them
+  question_count: number | null;
+}
+
+// e.g. "1:05"
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.max(seconds, 0) % 60).padStart(2, '0')}`;
+
+const formatTimeLimit = (seconds: number) =>
+  seconds % 60 === 0 ? `${seconds / 60} min` : `${formatCountdown(seconds)} min`;
+
+// Short phrases for the level card, leaving out rules that are switched off
+export const describeQuizRules = (rules: QuizRules): string[] =>
+  [
+    rules.question_count !== null && `${rules.question_count} questions`,
+    rules.max_mistakes === null
+      ? 'No mistake limit'
+      : `Out after ${rules.max_mistakes} ${rules.max_mistakes === 1 ? 'mistake' : 'mistakes'}`,
+    rules.pass_mark > 0 && `Pass mark ${rules.pass_mark}%`,
+    rules.time_limit_seconds !== null && `${formatTimeLimit(rules.time_limit_seconds)} time limit`,
+  ].filter((part): part is string => !!part);
@@ -0,0 +1,56 @@
+export interface RecognitionErrorGuidance {
+  title: string;
+  description: string;
+}
+
+const GUIDANCE: Record<string, RecognitionErrorGuidance> = {
+  'not-allowed': {
+    title: 'Microphone access is blocked',
+    description:
+      'Click the lock or camera icon in the address bar, allow microphone access for this site and reload the page.',
+  },
+  'service-not-allowed': {
+    title: 'Speech recognition is blocked',
+    description: 'Your browser does not allow speech recognition on this page. Try Chrome or Edge over https.',
+  },
+  'no-speech': {
+    title: 'No speech was heard',
+    description:
+      'Speak right after pressing the button, move closer to the microphone and check that the level meter moves when you talk.',
+  },
+  'audio-capture': {
+    title: 'No microphone found',
+    description:
+      'Make sure a microphone is plugged in and not used by another app, then pick it from the device list.',
+  },
+  network: {
+    title: 'Speech service unreachable',
+    description:
+      'Speech recognition needs an internet connection. Check your connection, disable VPNs or ad blockers for this site and try again.',
+  },
+  'model-unavailable': {
+    title: 'Offline model not downloaded',
+    description:
+      'The offline speech model could not be loaded. Connect to the internet once and download it from Settings, then try again.',
+  },
+};
+
+const FALLBACK_GUIDANCE: RecognitionErrorGuidance = {
+  title: 'Could not recognize speech',
+  description: 'Please try again, or run the microphone check to find out what is wrong.',
+};
+
+export const getRecognitionErrorGuidance = (error: string): RecognitionErrorGuidance => {
+  return GUIDANCE[error] ?? FALLBACK_GUIDANCE;
+};
+
+// Maps a getUserMedia failure onto the Web Speech error codes above
+export const toRecognitionError = (error: unknown): string => {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError' || error.name === 'SecurityError') return 'not-allowed';
+    if (error.name === 'NotFoundError' || error.name === 'NotReadableError' || error.name === 'OverconstrainedError') {
+      return 'audio-capture';
+    }
+  }
+  return 'network';
+};
@@ -0,0 +1,138 @@
+import type { RecognitionAlternative, SpeechRecognizer, SpeechRecognizerOptions } from './types';
+import { getMicrophoneConstraints } from '../microphone';
+import { toRecognitionError } from '../recognitionErrors';
+
+export interface HttpRecognizerOptions extends SpeechRecognizerOptions {
+  endpoint: string;
+  maxDurationMs?: number;
+}
+
+interface TranscriptionResponse {
+  transcript?: string;
+  confidence?: number;
+  alternatives?: RecognitionAlternative[];
+}
+
+export const isHttpRecognitionSupported = (): boolean => {
+  return !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+};
+
+// Records microphone audio until stop() (or maxDurationMs) and posts it as
+// multipart form data to a transcription endpoint, which is expected to
+// answer with JSON of the shape { transcript, confidence?, alternatives? }.
+// Expected phrases are sent along as a JSON array in `phrases` so the service
+// can bias towards them (e.g. as a prompt or speech context). Speech start and
+// end are not detected, so fluency timings are unavailable with this engine.
+export const createHttpRecognizer = ({
+  endpoint,
+  lang = 'en-US',
+  maxAlternatives = 5,
+  maxDurationMs = 5000,
+  grammar,
+}: HttpRecognizerOptions): SpeechRecognizer | null => {
+  if (!isHttpRecognitionSupported()) {
+    return null;
+  }
+
+  let mediaRecorder: MediaRecorder | null = null;
+  // True while start() waits for the microphone
+  let pending = false;
+  // Bumped by every start() and by stop() during that wait, so a start whose
+  // microphone arrives late can tell it is stale
+  let session = 0;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const transcribe = async (audio: Blob) => {
+    try {
+      const body = new FormData();
+      body.append('audio', audio, 'speech.webm');
+      body.append('lang', lang);
+      body.append('max_alternatives', String(maxAlternatives));
+      if (grammar?.length) body.append('phrases', JSON.stringify(grammar));
+
+      const response = await fetch(endpoint, { method: 'POST', body });
+      if (!response.ok) throw new Error(`Transcription failed with status ${response.status}`);
+
+      const data: TranscriptionResponse = await response.json();
+      const transcript = data.transcript?.trim();
+
+      if (transcript) {
+        const top = { transcript, confidence: data.confidence ?? 1 };
+        const alternatives = data.alternatives?.length ? data.alternatives : [top];
+        recognizer.onresult?.({ ...top, alternatives, isFinal: true });
+      } else {
+        recognizer.onerror?.({ error: 'no-speech' });
+      }
+    } catch (error) {
+      recognizer.onerror?.({ error: 'network', message: (error as Error).message });
+    } finally {
+      recognizer.onend?.();
+    }
+  };
+
+  const recognizer: SpeechRecognizer = {
+    engine: 'http',
+    onresult: null,
+    onspeechstart: null,
+    onspeechend: null,
+    onerror: null,
+    onend: null,
+    start: async () => {
+      if (pending || mediaRecorder) return;
+      pending = true;
+      const current = ++session;
+      const isStale = () => session !== current;
+
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: getMicrophoneConstraints() });
+      } catch (error) {
+        if (isStale()) return;
+        pending = false;
+        recognizer.onerror?.({ error: toRecognitionError(error), message: (error as Error).message });
+        recognizer.onend?.();
+        return;
+      }
+
+      // stop() was called while the browser was opening the microphone
+      if (isStale()) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      pending = false;
+
+      const chunks: Blob[] = [];
+      const recorder = new MediaRecorder(stream);
+      mediaRecorder = recorder;
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        mediaRecorder = null;
+        transcribe(new Blob(chunks, { type: recorder.mimeType }));
+      };
+
+      recorder.start();
+      timeout = setTimeout(() => recognizer.stop(), maxDurationMs);
+    },
+    stop: () => {
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = null;
+      }
+      if (pending) {
+        pending = false;
+        session++;
+        recognizer.onend?.();
+        return;
+      }
+      if (mediaRecorder?.state === 'recording') {
+        mediaRecorder.stop();
+      }
+    },
+  };
+
+  return recognizer;
+};
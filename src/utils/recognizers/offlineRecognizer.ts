@@ -0,0 +1,286 @@
+import type { Model } from 'vosk-browser';
+import type { SpeechRecognizer, SpeechRecognizerOptions } from './types';
+import { getMicrophoneConstraints } from '../microphone';
+import { toRecognitionError } from '../recognitionErrors';
+
+export interface OfflineRecognizerOptions extends SpeechRecognizerOptions {
+  modelUrl?: string;
+  maxDurationMs?: number;
+}
+
+const DEFAULT_MODEL_BASE_URL = '/models';
+const MODEL_CACHE_NAME = 'speech-models';
+// Model URLs that have loaded on this device, readable without awaiting Cache Storage
+const LOADED_MODELS_KEY = 'speech.offlineModels';
+const BUFFER_SIZE = 4096;
+// How long to wait for the final result after the microphone is released
+const FLUSH_TIMEOUT_MS = 1500;
+const UNKNOWN_WORD = '[unk]';
+
+// Small Vosk models (~40 MB each), served from VITE_OFFLINE_MODEL_BASE_URL
+const MODEL_FILES: Record<string, string> = {
+  en: 'vosk-model-small-en-us-0.15.tar.gz',
+  es: 'vosk-model-small-es-0.42.tar.gz',
+  fr: 'vosk-model-small-fr-0.22.tar.gz',
+};
+
+export const isOfflineRecognitionSupported = (): boolean => {
+  return (
+    !!navigator.mediaDevices?.getUserMedia &&
+    typeof WebAssembly !== 'undefined' &&
+    typeof Worker !== 'undefined' &&
+    typeof AudioContext !== 'undefined'
+  );
+};
+
+export const getOfflineModelUrl = (lang = 'en-US'): string | null => {
+  const file = MODEL_FILES[lang.split('-')[0].toLowerCase()];
+  if (!file) return null;
+
+  const baseUrl = import.meta.env.VITE_OFFLINE_MODEL_BASE_URL ?? DEFAULT_MODEL_BASE_URL;
+  return `${baseUrl.replace(/\/$/, '')}/${file}`;
+};
+
+// Keeps the model archive in Cache Storage so it is only downloaded once per
+// device; later loads work without any network at all.
+const fetchModelArchive = async (url: string): Promise<string> => {
+  if (typeof caches === 'undefined') return url;
+
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  let response = await cache.match(url);
+
+  if (!response) {
+    const download = await fetch(url);
+    if (!download.ok) throw new Error(`Model download failed with status ${download.status}`);
+    await cache.put(url, download.clone());
+    response = download;
+  }
+
+  return URL.createObjectURL(await response.blob());
+};
+
+const getLoadedModels = (): string[] => {
+  try {
+    const urls = JSON.parse(localStorage.getItem(LOADED_MODELS_KEY) ?? '[]');
+    return Array.isArray(urls) ? urls : [];
+  } catch {
+    return [];
+  }
+};
+
+const rememberLoadedModel = (url: string) => {
+  const urls = getLoadedModels();
+  if (!urls.includes(url)) localStorage.setItem(LOADED_MODELS_KEY, JSON.stringify([...urls, url]));
+};
+
+// No models ship with the app, so the offline engine is only worth picking
+// automatically when a model server is configured or a model has been
+// downloaded on this device before
+export const isOfflineModelAvailable = (): boolean =>
+  !!import.meta.env.VITE_OFFLINE_MODEL_BASE_URL || getLoadedModels().length > 0;
+
+export const isOfflineModelCached = async (url: string): Promise<boolean> => {
+  if (typeof caches === 'undefined') return false;
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  return !!(await cache.match(url));
+};
+
+const models = new Map<string, Promise<Model>>();
+
+// Loads (and memoizes) the model for a URL. The WASM runtime is imported
+// lazily so it is never part of the main bundle.
+export const loadOfflineModel = (url: string): Promise<Model> => {
+  let model = models.get(url);
+
+  if (!model) {
+    model = Promise.all([import('vosk-browser'), fetchModelArchive(url)])
+      .then(([{ createModel }, archiveUrl]) => createModel(archiveUrl))
+      .then((loaded) => {
+        rememberLoadedModel(url);
+        return loaded;
+      });
+    // A failed load should be retried next time rather than cached
+    model.catch(() => models.delete(url));
+    models.set(url, model);
+  }
+
+  return model;
+};
+
+// Builds the Vosk grammar: only these phrases (plus "[unk]" for anything
+// else) can be decoded, which keeps short answers from being misheard as
+// unrelated words.
+const toGrammar = (phrases: string[]): string | undefined => {
+  const words = Array.from(
+    new Set(phrases.map((phrase) => phrase.toLowerCase().replace(/[^\p{L}\p{N}' ]/gu, ' ').replace(/\s+/g, ' ').trim()))
+  ).filter(Boolean);
+
+  return words.length > 0 ? JSON.stringify([...words, UNKNOWN_WORD]) : undefined;
+};
+
+const stripUnknown = (text: string) => text.split(UNKNOWN_WORD).join(' ').replace(/\s+/g, ' ').trim();
+
+// Runs a small Kaldi model in a WASM worker, so no audio ever leaves the
+// device. When `grammar` is given the decoder is restricted to those phrases.
+export const createOfflineRecognizer = ({
+  lang = 'en-US',
+  grammar,
+  modelUrl = getOfflineModelUrl(lang),
+  interimResults = false,
+  continuous = false,
+  maxDurationMs = 5000,
+}: OfflineRecognizerOptions): SpeechRecognizer | null => {
+  if (!isOfflineRecognitionSupported() || !modelUrl) {
+    return null;
+  }
+
+  let active = false;
+  // Bumped by every start(), so a start still loading after stop() and a
+  // later start() can tell it is stale
+  let session = 0;
+  let cleanup: (() => void) | null = null;
+  let flush: (() => void) | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const finish = () => {
+    if (timeout) {
+      clearTimeout(timeout);
+      timeout = null;
+    }
+    cleanup?.();
+    cleanup = null;
+    flush = null;
+    if (!active) return;
+    active = false;
+    recognizer.onend?.();
+  };
+
+  const recognizer: SpeechRecognizer = {
+    engine: 'offline',
+    onresult: null,
+    onspeechstart: null,
+    onspeechend: null,
+    onerror: null,
+    onend: null,
+    start: async () => {
+      if (active) return;
+      active = true;
+      const current = ++session;
+      const isStale = () => !active || session !== current;
+
+      let model: Model;
+      let stream: MediaStream;
+      try {
+        model = await loadOfflineModel(modelUrl);
+      } catch (error) {
+        if (isStale()) return;
+        recognizer.onerror?.({ error: 'model-unavailable', message: (error as Error).message });
+        finish();
+        return;
+      }
+
+      // stop() may have been called while the model was loading; don't open the microphone then
+      if (isStale()) return;
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: getMicrophoneConstraints() });
+      } catch (error) {
+        if (isStale()) return;
+        recognizer.onerror?.({ error: toRecognitionError(error), message: (error as Error).message });
+        finish();
+        return;
+      }
+
+      if (isStale()) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      const audioContext = new AudioContext();
+      const source = audioContext.createMediaStreamSource(stream);
+      const processor = audioContext.createScriptProcessor(BUFFER_SIZE, 1, 1);
+      const kaldi = new model.KaldiRecognizer(audioContext.sampleRate, toGrammar(grammar ?? []));
+      kaldi.setWords(true);
+      let heardSpeech = false;
+      // Whether an utterance is in progress; the first partial words mark its start
+      let speaking = false;
+
+      kaldi.on('result', (message) => {
+        if (message.event !== 'result') return;
+        if (speaking) {
+          speaking = false;
+          recognizer.onspeechend?.();
+        }
+
+        // "[unk]" marks speech outside the grammar; it carries no transcript
+        const words = (message.result.result ?? []).filter(({ word }) => word !== UNKNOWN_WORD);
+        const transcript = stripUnknown(message.result.text);
+        if (!transcript) return;
+
+        const confidence = words.length > 0 ? words.reduce((sum, word) => sum + word.conf, 0) / words.length : 1;
+        const top = { transcript, confidence };
+
+        heardSpeech = true;
+        recognizer.onresult?.({ ...top, alternatives: [top], isFinal: true });
+        if (!continuous) finish();
+      });
+
+      kaldi.on('partialresult', (message) => {
+        if (message.event !== 'partialresult') return;
+        const transcript = stripUnknown(message.result.partial);
+        if (!transcript) return;
+
+        if (!speaking) {
+          speaking = true;
+          recognizer.onspeechstart?.();
+        }
+        if (!interimResults) return;
+
+        const partial = { transcript, confidence: 0 };
+        recognizer.onresult?.({ ...partial, alternatives: [partial], isFinal: false });
+      });
+
+      kaldi.on('error', (message) => {
+        if (message.event !== 'error') return;
+        recognizer.onerror?.({ error: 'aborted', message: message.error });
+        finish();
+      });
+
+      processor.onaudioprocess = (event) => {
+        if (active) kaldi.acceptWaveform(event.inputBuffer);
+      };
+      source.connect(processor);
+      processor.connect(audioContext.destination);
+
+      cleanup = () => {
+        processor.disconnect();
+        source.disconnect();
+        stream.getTracks().forEach((track) => track.stop());
+        audioContext.close();
+        kaldi.remove();
+      };
+
+      // Decode whatever is still buffered, then give up if nothing was heard
+      flush = () => {
+        flush = null;
+        if (timeout) clearTimeout(timeout);
+        processor.onaudioprocess = null;
+        kaldi.retrieveFinalResult();
+        timeout = setTimeout(() => {
+          if (!heardSpeech) recognizer.onerror?.({ error: 'no-speech' });
+          finish();
+        }, FLUSH_TIMEOUT_MS);
+      };
+      timeout = setTimeout(() => flush?.(), maxDurationMs);
+    },
+    stop: () => {
+      if (flush) {
+        flush();
+      } else {
+        finish();
+      }
+    },
+  };
+
+  return recognizer;
+};
@@ -0,0 +1,88 @@
+import type { SpeechRecognizer, SpeechRecognizerOptions } from './types';
+
+export interface ScriptedRecognizerOptions extends SpeechRecognizerOptions {
+  transcripts: string[];
+  delayMs?: number;
+}
+
+const INTERIM_WORD_DELAY_MS = 150;
+
+// Replays canned transcripts in order, one per start() call (or one after
+// another while continuous), wrapping around at the end of the script. An
+// entry of the form "!no-speech" raises that error instead, so failure paths
+// can be exercised too. Several hypotheses can be given for one turn as
+// "center~counter", best first.
+export const createScriptedRecognizer = ({
+  transcripts,
+  delayMs = 600,
+  interimResults = false,
+  continuous = false,
+}: ScriptedRecognizerOptions): SpeechRecognizer => {
+  let cursor = 0;
+  let active = false;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+
+  const schedule = (callback: () => void, delay: number) => {
+    timers.push(setTimeout(callback, delay));
+  };
+
+  const finish = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+    if (!active) return;
+    active = false;
+    recognizer.onend?.();
+  };
+
+  const playTurn = () => {
+    const entry = transcripts.length > 0 ? transcripts[cursor % transcripts.length] : '!no-speech';
+    cursor += 1;
+
+    if (entry.startsWith('!')) {
+      recognizer.onerror?.({ error: entry.slice(1) });
+      finish();
+      return;
+    }
+
+    const alternatives = entry.split('~').map((transcript, rank) => ({
+      transcript,
+      confidence: 1 - rank * 0.1,
+    }));
+    const words = alternatives[0].transcript.split(' ');
+    const interimSteps = interimResults ? words.length : 0;
+
+    schedule(() => recognizer.onspeechstart?.(), INTERIM_WORD_DELAY_MS / 2);
+
+    for (let step = 1; step <= interimSteps; step++) {
+      const partial = { transcript: words.slice(0, step).join(' '), confidence: 0 };
+      schedule(() => recognizer.onresult?.({ ...partial, alternatives: [partial], isFinal: false }), step * INTERIM_WORD_DELAY_MS);
+    }
+
+    schedule(() => {
+      recognizer.onspeechend?.();
+      recognizer.onresult?.({ ...alternatives[0], alternatives, isFinal: true });
+      if (continuous && active) {
+        schedule(playTurn, delayMs);
+      } else {
+        finish();
+      }
+    }, (interimSteps + 1) * INTERIM_WORD_DELAY_MS);
+  };
+
+  const recognizer: SpeechRecognizer = {
+    engine: 'scripted',
+    onresult: null,
+    onspeechstart: null,
+    onspeechend: null,
+    onerror: null,
+    onend: null,
+    start: () => {
+      if (active) return;
+      active = true;
+      schedule(playTurn, delayMs);
+    },
+    stop: finish,
+  };
+
+  return recognizer;
+};
@@ -0,0 +1,45 @@
+export type SpeechEngine = 'web-speech' | 'offline' | 'scripted' | 'http';
+
+export interface RecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+// transcript/confidence describe the top hypothesis; alternatives holds the
+// full N-best list (including the top one) in the engine's ranking order.
+// Interim results (isFinal false) are provisional and may still change.
+export interface RecognitionResult extends RecognitionAlternative {
+  alternatives: RecognitionAlternative[];
+  isFinal: boolean;
+}
+
+export interface RecognitionError {
+  error: string;
+  message?: string;
+}
+
+export interface SpeechRecognizerOptions {
+  lang?: string;
+  maxAlternatives?: number;
+  interimResults?: boolean;
+  continuous?: boolean;
+  // Phrases the learner is expected to say. The offline engine decodes only
+  // these, Web Speech and http pass them on as hints and the scripted engine
+  // ignores them; callers still match the transcript afterwards either way.
+  grammar?: string[];
+}
+
+// Common surface for every recognition engine. Handlers are assigned as
+// properties, mirroring the Web Speech API, so callers can swap engines freely.
+// onspeechstart/onspeechend fire when the engine detects the learner starting
+// and stopping to talk; engines that cannot tell never call them.
+export interface SpeechRecognizer {
+  readonly engine: SpeechEngine;
+  onresult: ((result: RecognitionResult) => void) | null;
+  onspeechstart: (() => void) | null;
+  onspeechend: (() => void) | null;
+  onerror: ((error: RecognitionError) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
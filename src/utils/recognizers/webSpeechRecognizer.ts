@@ -0,0 +1,133 @@
+import type { SpeechRecognizer, SpeechRecognizerOptions } from './types';
+
+interface BrowserSpeechRecognitionEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface BrowserSpeechRecognitionErrorEvent {
+  error: string;
+  message?: string;
+}
+
+interface BrowserSpeechGrammarList {
+  addFromString: (grammar: string, weight?: number) => void;
+}
+
+interface BrowserSpeechRecognition {
+  grammars: BrowserSpeechGrammarList;
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  maxAlternatives: number;
+  onresult: ((event: BrowserSpeechRecognitionEvent) => void) | null;
+  onerror: ((event: BrowserSpeechRecognitionErrorEvent) => void) | null;
+  onspeechstart: (() => void) | null;
+  onspeechend: (() => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+type BrowserSpeechGrammarListConstructor = new () => BrowserSpeechGrammarList;
+
+// Characters with a meaning in JSGF rule expansions
+const JSGF_SPECIAL_CHARACTERS = /[|;=<>()[\]{}*+/\\"]/g;
+
+// A JSGF grammar accepting any one of the phrases
+const toJsgf = (phrases: string[]): string => {
+  const alternatives = Array.from(
+    new Set(phrases.map((phrase) => phrase.replace(JSGF_SPECIAL_CHARACTERS, ' ').replace(/\s+/g, ' ').trim()))
+  ).filter(Boolean);
+  return `#JSGF V1.0; grammar answers; public <answer> = ${alternatives.join(' | ')} ;`;
+};
+
+export const isWebSpeechSupported = (): boolean => {
+  return 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
+};
+
+export const createWebSpeechRecognizer = (options: SpeechRecognizerOptions = {}): SpeechRecognizer | null => {
+  if (!isWebSpeechSupported()) {
+    return null;
+  }
+
+  const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+  const recognition = new SpeechRecognition();
+
+  recognition.continuous = options.continuous ?? false;
+  recognition.interimResults = options.interimResults ?? false;
+  recognition.lang = options.lang ?? 'en-US';
+  recognition.maxAlternatives = options.maxAlternatives ?? 5;
+
+  // Only a hint: browsers that have SpeechGrammarList may use it to bias
+  // recognition, the rest ignore it and rely on matching afterwards
+  const SpeechGrammarList = window.SpeechGrammarList || window.webkitSpeechGrammarList;
+  if (SpeechGrammarList && options.grammar?.length) {
+    const grammars = new SpeechGrammarList();
+    grammars.addFromString(toJsgf(options.grammar), 1);
+    recognition.grammars = grammars;
+  }
+
+  const recognizer: SpeechRecognizer = {
+    engine: 'web-speech',
+    onresult: null,
+    onspeechstart: null,
+    onspeechend: null,
+    onerror: null,
+    onend: null,
+    start: () => recognition.start(),
+    stop: () => recognition.stop(),
+  };
+
+  recognition.onresult = (event) => {
+    let interim = '';
+
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+
+      if (result.isFinal) {
+        const alternatives = Array.from(result, (alternative) => ({
+          transcript: alternative.transcript.trim(),
+          confidence: alternative.confidence,
+        }));
+        recognizer.onresult?.({ ...alternatives[0], alternatives, isFinal: true });
+      } else {
+        interim += result[0].transcript;
+      }
+    }
+
+    if (interim) {
+      const alternative = { transcript: interim.trim(), confidence: 0 };
+      recognizer.onresult?.({ ...alternative, alternatives: [alternative], isFinal: false });
+    }
+  };
+
+  recognition.onerror = (event) => {
+    recognizer.onerror?.({ error: event.error, message: event.message });
+  };
+
+  recognition.onspeechstart = () => {
+    recognizer.onspeechstart?.();
+  };
+
+  recognition.onspeechend = () => {
+    recognizer.onspeechend?.();
+  };
+
+  recognition.onend = () => {
+    recognizer.onend?.();
+  };
+
+  return recognizer;
+};
+
+// Extend Window interface for TypeScript
+declare global {
+  interface Window {
+    SpeechRecognition: BrowserSpeechRecognitionConstructor;
+    webkitSpeechRecognition: BrowserSpeechRecognitionConstructor;
+    SpeechGrammarList?: BrowserSpeechGrammarListConstructor;
+    webkitSpeechGrammarList?: BrowserSpeechGrammarListConstructor;
+  }
+}
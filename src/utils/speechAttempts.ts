@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FluencyMetrics } from './fluency';
+
+export const ATTEMPT_AUDIO_BUCKET = 'attempt-audio';
+
+export type InputMode = 'spoken' | 'typed';
+
+export interface SpeechAttemptInput {
+  userId: string;
+  levelId: string;
+  questionId: string;
+  transcript: string | null;
+  matchedOption: string | null;
+  isCorrect: boolean | null;
+  audio: Blob | null;
+  fluency: FluencyMetrics;
+  // Earlier attempts at the same question in this quiz run
+  retries: number;
+  inputMode: InputMode;
+}
+
+const audioExtension = (audio: Blob) => (audio.type.includes('ogg') ? 'ogg' : audio.type.includes('mp4') ? 'm4a' : 'webm');
+
+// Uploads the recording (if any) to the learner's folder in the attempt-audio
+// bucket and records the attempt. A failed upload still keeps the transcript.
+export const saveSpeechAttempt = async (attempt: SpeechAttemptInput): Promise<void> => {
+  let audioPath: string | null = null;
+
+  if (attempt.audio) {
+    const path = `${attempt.userId}/${crypto.randomUUID()}.${audioExtension(attempt.audio)}`;
+    const { error } = await supabase.storage
+      .from(ATTEMPT_AUDIO_BUCKET)
+      .upload(path, attempt.audio, { contentType: attempt.audio.type });
+
+    if (error) {
+      console.error('Error uploading attempt audio:', error);
+    } else {
+      audioPath = path;
+    }
+  }
+
+  const { error } = await supabase.from('speech_attempts').insert([{
+    user_id: attempt.userId,
+    level_id: attempt.levelId,
+    question_id: attempt.questionId,
+    transcript: attempt.transcript,
+    matched_option: attempt.matchedOption,
+    is_correct: attempt.isCorrect,
+    audio_path: audioPath,
+    response_latency_ms: attempt.fluency.responseLatencyMs,
+    utterance_duration_ms: attempt.fluency.utteranceDurationMs,
+    words_per_minute: attempt.fluency.wordsPerMinute,
+    retries: attempt.retries,
+    input_mode: attempt.inputMode,
+  }]);
+
+  if (error) throw error;
+};
+
+export const getAttemptAudioUrl = async (path: string): Promise<string> => {
+  const { data, error } = await supabase.storage.from(ATTEMPT_AUDIO_BUCKET).createSignedUrl(path, 60 * 60);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
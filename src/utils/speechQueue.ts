@@ -0,0 +1,219 @@
+export interface SpeakOptions {
+  voiceURI?: string | null;
+  lang?: string;
+  rate?: number;
+  pitch?: number;
+  // Cancel whatever is playing or queued instead of waiting for it
+  interrupt?: boolean;
+  // A recording of the text to play instead of synthetic speech; the text is
+  // still spoken if the recording cannot be played
+  audioUrl?: string | null;
+  playbackRate?: number;
+}
+
+// What is being spoken right now; wordStart/wordEnd delimit the current word
+// in `text` (both -1 until the first boundary event arrives).
+export interface SpeechQueueState {
+  text: string | null;
+  paused: boolean;
+  wordStart: number;
+  wordEnd: number;
+}
+
+export interface SpeechQueue {
+  speak: (text: string, options?: SpeakOptions) => Promise<void>;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  getState: () => SpeechQueueState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+interface QueueItem {
+  text: string;
+  options: SpeakOptions;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+interface ActivePrompt {
+  item: QueueItem;
+  utterance: SpeechSynthesisUtterance | null;
+  audio: HTMLAudioElement | null;
+}
+
+const IDLE_STATE: SpeechQueueState = { text: null, paused: false, wordStart: -1, wordEnd: -1 };
+
+export const isSpeechSynthesisSupported = (): boolean => 'speechSynthesis' in window;
+
+// Prefers the exact voice the learner picked, then any voice for the accent
+const pickVoice = (voiceURI: string | null | undefined, lang: string): SpeechSynthesisVoice | null => {
+  const voices = window.speechSynthesis.getVoices();
+  return (
+    voices.find((voice) => voice.voiceURI === voiceURI) ??
+    voices.find((voice) => voice.lang.replace('_', '-') === lang) ??
+    null
+  );
+};
+
+// Not every engine reports charLength, so fall back to the next whitespace
+const findWordEnd = (text: string, charIndex: number, charLength: number): number => {
+  if (charLength > 0) return charIndex + charLength;
+  const length = text.slice(charIndex).search(/\s/);
+  return length === -1 ? text.length : charIndex + length;
+};
+
+// Plays utterances one after another instead of letting overlapping calls
+// stack up in the browser, and publishes word boundaries so the text being
+// read can be highlighted. Items with a recording play that instead. Cancelled
+// items resolve rather than reject.
+export const createSpeechQueue = (): SpeechQueue => {
+  let queue: QueueItem[] = [];
+  // Held on to so the utterance is not garbage collected mid-sentence, which
+  // silently drops its end event in Chrome
+  let active: ActivePrompt | null = null;
+  let state = IDLE_STATE;
+  const listeners = new Set<() => void>();
+
+  const setState = (next: Partial<SpeechQueueState>) => {
+    state = { ...state, ...next };
+    listeners.forEach((listener) => listener());
+  };
+
+  const finishItem = (item: QueueItem, error?: unknown) => {
+    if (error) {
+      item.reject(error);
+    } else {
+      item.resolve();
+    }
+    playNext();
+  };
+
+  // Speaks the text of a recording that failed to start or resume, unless
+  // that recording has since been cancelled
+  const fallBackToSpeech = (item: QueueItem, audio: HTMLAudioElement) => {
+    if (active?.audio !== audio) return;
+    console.error('Error playing recording, falling back to speech:', item.options.audioUrl);
+    if (isSpeechSynthesisSupported()) {
+      speakItem(item);
+    } else {
+      finishItem(item, new Error('Speech synthesis not supported'));
+    }
+  };
+
+  const playRecording = (item: QueueItem) => {
+    const audio = new Audio(item.options.audioUrl!);
+    audio.playbackRate = item.options.playbackRate ?? 1;
+
+    audio.onended = () => {
+      if (active?.audio === audio) finishItem(item);
+    };
+    const fallBack = () => fallBackToSpeech(item, audio);
+    audio.onerror = fallBack;
+
+    active = { item, utterance: null, audio };
+    setState({ text: item.text, paused: false, wordStart: -1, wordEnd: -1 });
+    audio.play().catch(fallBack);
+  };
+
+  const speakItem = (item: QueueItem) => {
+    const { voiceURI, lang = 'en-US', rate = 0.9, pitch = 1 } = item.options;
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    const voice = pickVoice(voiceURI, lang);
+
+    utterance.voice = voice;
+    utterance.lang = voice?.lang ?? lang;
+    utterance.rate = rate;
+    utterance.pitch = pitch;
+
+    // Events of an utterance that has since been cancelled are ignored
+    const isActive = () => active?.utterance === utterance;
+
+    utterance.onboundary = (event) => {
+      if (!isActive() || (event.name && event.name !== 'word')) return;
+      setState({ wordStart: event.charIndex, wordEnd: findWordEnd(item.text, event.charIndex, event.charLength) });
+    };
+    utterance.onend = () => {
+      if (isActive()) finishItem(item);
+    };
+    utterance.onerror = (event) => {
+      if (!isActive()) return;
+      finishItem(item, event.error === 'interrupted' || event.error === 'canceled' ? undefined : event);
+    };
+
+    active = { item, utterance, audio: null };
+    setState({ text: item.text, paused: false, wordStart: -1, wordEnd: -1 });
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const playNext = () => {
+    const item = queue.shift();
+    if (!item) {
+      active = null;
+      setState(IDLE_STATE);
+      return;
+    }
+
+    if (item.options.audioUrl) {
+      playRecording(item);
+    } else {
+      speakItem(item);
+    }
+  };
+
+  const cancel = () => {
+    const pending = active ? [active.item, ...queue] : queue;
+    active?.audio?.pause();
+    active = null;
+    queue = [];
+    pending.forEach((item) => item.resolve());
+
+    if (isSpeechSynthesisSupported()) {
+      window.speechSynthesis.cancel();
+    }
+    setState(IDLE_STATE);
+  };
+
+  return {
+    speak: (text, options = {}) => {
+      if (!isSpeechSynthesisSupported() && !options.audioUrl) {
+        return Promise.reject(new Error('Speech synthesis not supported'));
+      }
+
+      if (options.interrupt) cancel();
+
+      return new Promise<void>((resolve, reject) => {
+        queue.push({ text, options, resolve, reject });
+        if (!active) playNext();
+      });
+    },
+    cancel,
+    pause: () => {
+      if (!active || state.paused) return;
+      if (active.audio) {
+        active.audio.pause();
+      } else {
+        window.speechSynthesis.pause();
+      }
+      setState({ paused: true });
+    },
+    resume: () => {
+      if (!active || !state.paused) return;
+      if (active.audio) {
+        const { item, audio } = active;
+        audio.play().catch(() => fallBackToSpeech(item, audio));
+      } else {
+        window.speechSynthesis.resume();
+      }
+      setState({ paused: false });
+    },
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+// Shared by the whole app so there is only ever one voice talking
+export const speechQueue = createSpeechQueue();
@@ -1,70 +1,285 @@
 import { compareTwoStrings } from 'string-similarity';
+import type {
+  RecognitionAlternative,
+  SpeechEngine,
+  SpeechRecognizer,
+  SpeechRecognizerOptions,
+} from './recognizers/types';
+import { createWebSpeechRecognizer, isWebSpeechSupported } from './recognizers/webSpeechRecognizer';
+import { createScriptedRecognizer } from './recognizers/scriptedRecognizer';
+import { createHttpRecognizer, isHttpRecognitionSupported } from './recognizers/httpRecognizer';
+import {
+  createOfflineRecognizer,
+  isOfflineModelAvailable,
+  isOfflineRecognitionSupported,
+} from './recognizers/offlineRecognizer';
+import { DEFAULT_PIPELINE, getNormalizationPipeline, NormalizationStep, normalizeSpeech } from './textNormalization';
+import { CourseLanguage, DEFAULT_LANGUAGE } from './languages';
+import { speechQueue, SpeakOptions } from './speechQueue';
 
-export const isSpeechRecognitionSupported = (): boolean => {
-  return 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
+export type {
+  SpeechEngine,
+  SpeechRecognizer,
+  RecognitionAlternative,
+  RecognitionResult,
+  RecognitionError,
+} from './recognizers/types';
+export type { SpeakOptions } from './speechQueue';
+
+export interface CreateSpeechRecognitionOptions extends SpeechRecognizerOptions {
+  engine?: SpeechEngine;
+  script?: string[];
+  endpoint?: string;
+}
+
+const DEFAULT_TRANSCRIPTION_URL = 'http://localhost:8000/transcribe';
+const ENGINE_KEY = 'speech.engine';
+
+// Engines a learner can choose between in settings. 'auto' prefers Web Speech
+// and falls back to the offline engine where the browser lacks it and a model
+// can be loaded; otherwise recognition is unsupported and answers are typed.
+export type EnginePreference = 'auto' | 'web-speech' | 'offline';
+
+export const getEnginePreference = (): EnginePreference => {
+  const preference = localStorage.getItem(ENGINE_KEY);
+  return preference === 'web-speech' || preference === 'offline' ? preference : 'auto';
 };
 
-export const createSpeechRecognition = (): any | null => {
-  if (!isSpeechRecognitionSupported()) {
-    return null;
+export const setEnginePreference = (preference: EnginePreference) => {
+  if (preference === 'auto') {
+    localStorage.removeItem(ENGINE_KEY);
+  } else {
+    localStorage.setItem(ENGINE_KEY, preference);
   }
+};
 
-  const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-  const recognition = new SpeechRecognition();
-  
-  recognition.continuous = false;
-  recognition.interimResults = false;
-  recognition.lang = 'en-US';
-  recognition.maxAlternatives = 1;
-  
-  return recognition;
+// The engine can be switched per environment, e.g. VITE_SPEECH_ENGINE=scripted
+// with VITE_SPEECH_SCRIPT="Waiter|Menu|Check" for demos and CI runs. Otherwise
+// the learner's preference from settings applies.
+export const getSpeechEngine = (): SpeechEngine => {
+  const engine = import.meta.env.VITE_SPEECH_ENGINE;
+  if (engine === 'scripted' || engine === 'http' || engine === 'offline' || engine === 'web-speech') {
+    return engine;
+  }
+
+  const preference = getEnginePreference();
+  if (preference !== 'auto') return preference;
+  return !isWebSpeechSupported() && isOfflineRecognitionSupported() && isOfflineModelAvailable()
+    ? 'offline'
+    : 'web-speech';
 };
 
-export const speakText = (text: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if (!('speechSynthesis' in window)) {
-      reject(new Error('Speech synthesis not supported'));
-      return;
-    }
+export const isSpeechRecognitionSupported = (engine: SpeechEngine = getSpeechEngine()): boolean => {
+  switch (engine) {
+    case 'scripted':
+      return true;
+    case 'http':
+      return isHttpRecognitionSupported();
+    case 'offline':
+      return isOfflineRecognitionSupported();
+    default:
+      return isWebSpeechSupported();
+  }
+};
+
+const createRecognizer = (options: CreateSpeechRecognitionOptions): SpeechRecognizer | null => {
+  const { engine = getSpeechEngine(), ...recognizerOptions } = options;
+
+  switch (engine) {
+    case 'scripted':
+      return createScriptedRecognizer({
+        ...recognizerOptions,
+        transcripts: options.script ?? (import.meta.env.VITE_SPEECH_SCRIPT ?? '').split('|').filter(Boolean),
+      });
+    case 'http':
+      return createHttpRecognizer({
+        ...recognizerOptions,
+        endpoint: options.endpoint ?? import.meta.env.VITE_TRANSCRIPTION_URL ?? DEFAULT_TRANSCRIPTION_URL,
+      });
+    case 'offline':
+      return createOfflineRecognizer(recognizerOptions);
+    default:
+      return createWebSpeechRecognizer(recognizerOptions);
+  }
+};
+
+export const createSpeechRecognition = (options: CreateSpeechRecognitionOptions = {}): SpeechRecognizer | null => {
+  const recognizer = createRecognizer(options);
+  if (!recognizer) return null;
+
+  // Silence any speech output first so the microphone never picks up the app's own voice
+  const start = recognizer.start.bind(recognizer);
+  recognizer.start = () => {
+    speechQueue.cancel();
+    return start();
+  };
+
+  return recognizer;
+};
+
+export const speakText = (text: string, options: SpeakOptions = {}): Promise<void> => {
+  return speechQueue.speak(text, options);
+};
+
+// Alternative phrasings keyed by the option they stand for,
+// e.g. { Check: ['bill', 'the check, please'] }
+export type AcceptedVariants = Record<string, string[]>;
+
+export interface MatchResult {
+  match: string;
+  matchedText: string;
+  score: number;
+  transcript: string;
+  similarity: number;
+  confidence: number;
+  needsConfirmation: boolean;
+}
+
+// Scores at or above `accept` are submitted directly; scores between
+// `confirm` and `accept` ask the learner "Did you mean ...?" first.
+export interface MatchThresholds {
+  accept: number;
+  confirm: number;
+}
+
+export const DEFAULT_MATCH_THRESHOLDS: MatchThresholds = { accept: 0.7, confirm: 0.5 };
+
+// When another option scores within this margin of the best one the two are
+// too close to call (e.g. "Counter" vs "Center"), so confirmation is required
+// even above the accept threshold.
+const AMBIGUITY_MARGIN = 0.1;
+
+// Share of the final score driven by recognizer confidence; the rest is
+// string similarity. Kept small so a low-confidence exact hit still passes.
+const CONFIDENCE_WEIGHT = 0.3;
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = 'en-US';
-    utterance.rate = 0.9;
-    utterance.pitch = 1;
-    
-    utterance.onend = () => resolve();
-    utterance.onerror = (event) => reject(event);
-    
-    window.speechSynthesis.speak(utterance);
-  });
+// Some engines (Chrome among them) report 0 confidence for every hypothesis
+// after the first, so fall back to a rank-based estimate in that case.
+const effectiveConfidence = (alternative: RecognitionAlternative, rank: number): number => {
+  if (alternative.confidence > 0) return Math.min(alternative.confidence, 1);
+  return Math.max(1 - rank * 0.1, 0.5);
 };
 
-export const findBestMatch = (spokenText: string, options: string[]): { match: string; score: number } | null => {
-  const normalizedSpoken = spokenText.toLowerCase().trim();
-  
-  let bestMatch = { text: '', score: 0 };
-  
-  for (const option of options) {
-    const normalizedOption = option.toLowerCase().trim();
-    const similarity = compareTwoStrings(normalizedSpoken, normalizedOption);
-    
-    if (similarity > bestMatch.score) {
-      bestMatch = { text: option, score: similarity };
+export const findBestMatch = (
+  spoken: string | RecognitionAlternative[],
+  options: string[],
+  variants: AcceptedVariants = {},
+  thresholds: MatchThresholds = DEFAULT_MATCH_THRESHOLDS,
+  pipeline: NormalizationStep[] = DEFAULT_PIPELINE
+): MatchResult | null => {
+  const alternatives = typeof spoken === 'string' ? [{ transcript: spoken, confidence: 1 }] : spoken;
+
+  // Every accepted phrasing points back at its canonical option
+  const candidates = options.flatMap((option) => [
+    { option, text: option },
+    ...(variants[option] ?? []).map((variant) => ({ option, text: variant })),
+  ]);
+
+  let bestMatch: MatchResult | null = null;
+  // Best score seen for each option, to detect near ties between options
+  const optionScores = new Map<string, number>();
+
+  for (const [rank, alternative] of alternatives.entries()) {
+    const normalizedSpoken = normalizeSpeech(alternative.transcript, pipeline);
+    const confidence = effectiveConfidence(alternative, rank);
+
+    for (const { option, text } of candidates) {
+      const normalizedCandidate = normalizeSpeech(text, pipeline);
+      const similarity = compareTwoStrings(normalizedSpoken, normalizedCandidate);
+      const score = similarity * (1 - CONFIDENCE_WEIGHT + CONFIDENCE_WEIGHT * confidence);
+      optionScores.set(option, Math.max(optionScores.get(option) ?? 0, score));
+
+      if (!bestMatch || score > bestMatch.score) {
+        bestMatch = {
+          match: option,
+          matchedText: text,
+          score,
+          transcript: alternative.transcript,
+          similarity,
+          confidence,
+          needsConfirmation: false,
+        };
+      }
     }
   }
-  
-  // Threshold of 0.7 for fuzzy matching
-  if (bestMatch.score >= 0.7) {
-    return { match: bestMatch.text, score: bestMatch.score };
+
+  if (!bestMatch || bestMatch.score < thresholds.confirm) {
+    return null;
   }
-  
-  return null;
+
+  const runnerUp = Math.max(
+    0,
+    ...Array.from(optionScores).filter(([option]) => option !== bestMatch.match).map(([, score]) => score)
+  );
+  const isAmbiguous = bestMatch.score - runnerUp < AMBIGUITY_MARGIN;
+
+  return { ...bestMatch, needsConfirmation: bestMatch.score < thresholds.accept || isAmbiguous };
 };
 
-// Extend Window interface for TypeScript
-declare global {
-  interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
+// Accepted phrasings grouped per option, without saying which option a group
+// stands for, e.g. [['bill', 'the check, please']]
+export type PhrasingGroups = string[][];
+
+// Matches the options and, separately, the phrasing groups; the better score
+// wins. Ties between a phrasing and an option cannot be judged because the
+// phrasing's option is unknown, so each side only checks its own near ties.
+// On a phrasing match `match` is the phrasing itself, left for the server to
+// resolve to its option.
+export const findBestAnswer = (
+  spoken: string | RecognitionAlternative[],
+  options: string[],
+  phrasings: PhrasingGroups,
+  thresholds: MatchThresholds = DEFAULT_MATCH_THRESHOLDS,
+  pipeline: NormalizationStep[] = DEFAULT_PIPELINE
+): MatchResult | null => {
+  const optionMatch = findBestMatch(spoken, options, {}, thresholds, pipeline);
+  const groups = phrasings.filter((group) => group.length > 0);
+  const phrasingMatch = findBestMatch(
+    spoken,
+    groups.map(([first]) => first),
+    Object.fromEntries(groups.map(([first, ...rest]) => [first, rest])),
+    thresholds,
+    pipeline
+  );
+
+  if (phrasingMatch && (!optionMatch || phrasingMatch.score > optionMatch.score)) {
+    return { ...phrasingMatch, match: phrasingMatch.matchedText };
   }
-}
+  return optionMatch;
+};
+
+const CONFIRMATION_WORDS: Record<CourseLanguage, { yes: string[]; no: string[] }> = {
+  'en-US': {
+    yes: ['yes', 'yeah', 'yep', 'correct', 'right', 'that is right', 'sure', 'ok', 'okay'],
+    no: ['no', 'nope', 'wrong', 'not that', 'no way'],
+  },
+  'es-ES': {
+    yes: ['sí', 'claro', 'correcto', 'vale', 'exacto', 'eso es'],
+    no: ['no', 'incorrecto', 'eso no', 'para nada'],
+  },
+  'fr-FR': {
+    yes: ['oui', 'ouais', 'exact', 'exactement', 'correct', "d'accord", "c'est ça"],
+    no: ['non', 'pas ça', 'incorrect', 'pas du tout'],
+  },
+};
+
+export const getConfirmationWords = (language: CourseLanguage = DEFAULT_LANGUAGE): string[] => {
+  const { yes, no } = CONFIRMATION_WORDS[language];
+  return [...yes, ...no];
+};
+
+// Interprets a spoken reply to a "Did you mean ...?" prompt:
+// true for yes, false for no, null when it is neither.
+export const parseConfirmation = (transcript: string, language: CourseLanguage = DEFAULT_LANGUAGE): boolean | null => {
+  const pipeline = getNormalizationPipeline(language);
+  const reply = normalizeSpeech(transcript, pipeline);
+  const isReply = (word: string) => {
+    const normalized = normalizeSpeech(word, pipeline);
+    return reply === normalized || reply.startsWith(`${normalized} `);
+  };
+
+  const { yes, no } = CONFIRMATION_WORDS[language];
+  if (yes.some(isReply)) return true;
+  if (no.some(isReply)) return false;
+  return null;
+};
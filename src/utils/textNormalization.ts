@@ -0,0 +1,306 @@
+// Normalization pipeline applied to both the recognizer transcript and the
+// expected answers before they are compared. Every step is a pure
+// string -> string function so it can be used and tested on its own.
+
+import type { CourseLanguage } from './languages';
+
+export type NormalizationStep = (text: string) => string;
+
+const CONTRACTIONS: Record<string, string> = {
+  "it's": 'it is',
+  "that's": 'that is',
+  "what's": 'what is',
+  "there's": 'there is',
+  "here's": 'here is',
+  "he's": 'he is',
+  "she's": 'she is',
+  "i'm": 'i am',
+  "you're": 'you are',
+  "we're": 'we are',
+  "they're": 'they are',
+  "i've": 'i have',
+  "you've": 'you have',
+  "we've": 'we have',
+  "i'd": 'i would',
+  "you'd": 'you would',
+  "i'll": 'i will',
+  "you'll": 'you will',
+  "isn't": 'is not',
+  "aren't": 'are not',
+  "don't": 'do not',
+  "doesn't": 'does not',
+  "didn't": 'did not',
+  "can't": 'cannot',
+  "won't": 'will not',
+  "let's": 'let us',
+};
+
+// Multi-word fillers are listed before the single words they contain
+const FILLER_PHRASES = [
+  'i think it is',
+  'i think',
+  'i believe',
+  'i guess',
+  'the answer is',
+  'it is called',
+  'it is a',
+  'it is an',
+  'it is',
+  'that is',
+  'you know',
+  'um',
+  'umm',
+  'uh',
+  'uhm',
+  'er',
+  'erm',
+  'hmm',
+  'well',
+  'maybe',
+  'like',
+];
+
+const ARTICLES = ['a', 'an', 'the'];
+
+// Spanish and French lists are written without accents because
+// stripDiacritics runs before them
+const SPANISH_FILLER_PHRASES = [
+  'creo que es',
+  'creo que',
+  'la respuesta es',
+  'se llama',
+  'es un',
+  'es una',
+  'pues',
+  'bueno',
+  'este',
+  'eh',
+  'em',
+  'mmm',
+];
+
+const SPANISH_ARTICLES = ['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas'];
+
+const FRENCH_FILLER_PHRASES = [
+  'je pense que c est',
+  'je pense que',
+  'je crois que',
+  'la reponse est',
+  'ca s appelle',
+  'c est un',
+  'c est une',
+  'c est',
+  'euh',
+  'ben',
+  'bah',
+  'bon',
+  'alors',
+];
+
+const FRENCH_ARTICLES = ['le', 'la', 'les', 'l', 'un', 'une', 'des', 'du', 'de', 'd'];
+
+// Words recognizers write one way while answers may use another. Only
+// different spellings of the same word belong here: true homophones
+// ("there"/"their", "by"/"buy") stay apart because options may depend on them.
+const SPELLING_VARIANTS: Record<string, string> = {
+  okay: 'ok',
+  cheque: 'check',
+  colour: 'color',
+  favourite: 'favorite',
+  flavour: 'flavor',
+  neighbour: 'neighbor',
+  centre: 'center',
+  theatre: 'theater',
+  metre: 'meter',
+  litre: 'liter',
+  grey: 'gray',
+  tyre: 'tire',
+  programme: 'program',
+  jewellery: 'jewelry',
+  travelling: 'traveling',
+  cancelled: 'canceled',
+  organise: 'organize',
+  realise: 'realize',
+  apologise: 'apologize',
+  doughnut: 'donut',
+};
+
+const UNITS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1000000 };
+
+const words = (text: string) => text.split(/\s+/).filter(Boolean);
+
+export const toLowerCase: NormalizationStep = (text) => text.toLowerCase();
+
+// Recognizers insert commas, full stops and question marks; apostrophes are
+// kept so contractions can still be expanded afterwards.
+export const removePunctuation: NormalizationStep = (text) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const expandContractions: NormalizationStep = (text) =>
+  words(text)
+    .map((word) => CONTRACTIONS[word] ?? word)
+    .join(' ');
+
+// Removes the given phrases wherever they appear as whole words
+export const createFillerStripper = (phrases: string[]): NormalizationStep => (text) => {
+  let result = ` ${text} `;
+  for (const phrase of phrases) {
+    result = result.split(` ${phrase} `).join(' ');
+  }
+  return result.replace(/\s+/g, ' ').trim();
+};
+
+export const createArticleStripper = (articles: string[]): NormalizationStep => {
+  const articleSet = new Set(articles);
+  return (text) =>
+    words(text)
+      .filter((word) => !articleSet.has(word))
+      .join(' ');
+};
+
+export const stripFillers = createFillerStripper(FILLER_PHRASES);
+
+export const stripArticles = createArticleStripper(ARTICLES);
+
+// "café" -> "cafe", so an answer typed without accents still matches
+export const stripDiacritics: NormalizationStep = (text) => text.normalize('NFD').replace(/\p{M}/gu, '');
+
+// French elision: "l'addition" -> "l addition", "qu'est" -> "qu est"
+export const splitElisions: NormalizationStep = (text) => text.replace(/'/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const collapseSpellingVariants: NormalizationStep = (text) =>
+  words(text)
+    .map((word) => SPELLING_VARIANTS[word] ?? word)
+    .join(' ');
+
+const numberWordValue = (word: string): number | undefined => {
+  const unit = UNITS.indexOf(word);
+  if (unit >= 0) return unit;
+  const ten = TENS.indexOf(word);
+  if (ten >= 2) return ten * 10;
+  return undefined;
+};
+
+// "twenty one" -> "21", "gate twelve" -> "gate 12", "one hundred and five" -> "105"
+export const spelledNumbersToDigits: NormalizationStep = (text) => {
+  const output: string[] = [];
+  let total = 0;
+  let current = 0;
+  let inNumber = false;
+
+  const flush = () => {
+    if (inNumber) output.push(String(total + current));
+    total = 0;
+    current = 0;
+    inNumber = false;
+  };
+
+  const tokens = words(text);
+  tokens.forEach((word, index) => {
+    const value = numberWordValue(word);
+    const scale = SCALES[word];
+
+    if (value !== undefined) {
+      // "one two" is two numbers, "twenty one" and "hundred five" are one. A
+      // unit only completes a multiple of ten from twenty up, so "ten one"
+      // stays "10 1" rather than becoming "11".
+      const tensSlotFree = current % 100 === 0;
+      const unitSlotFree = value < 10 && current % 100 >= 20 && current % 10 === 0;
+      if (current > 0 && !tensSlotFree && !unitSlotFree) flush();
+      inNumber = true;
+      current += value;
+    } else if (scale && inNumber) {
+      if (scale === 100) {
+        current *= scale;
+      } else {
+        total += current * scale;
+        current = 0;
+      }
+    } else if (word === 'and' && inNumber && numberWordValue(tokens[index + 1] ?? '') !== undefined) {
+      // "one hundred and five" - the "and" belongs to the number
+    } else {
+      flush();
+      output.push(word);
+    }
+  });
+  flush();
+
+  return output.join(' ');
+};
+
+export const numberToWords = (value: number): string => {
+  if (value < 20) return UNITS[value];
+  if (value < 100) {
+    const rest = value % 10;
+    return rest ? `${TENS[Math.floor(value / 10)]} ${UNITS[rest]}` : TENS[value / 10];
+  }
+  if (value < 1000) {
+    const rest = value % 100;
+    const hundreds = `${UNITS[Math.floor(value / 100)]} hundred`;
+    return rest ? `${hundreds} and ${numberToWords(rest)}` : hundreds;
+  }
+  if (value < 1000000) {
+    const rest = value % 1000;
+    const thousands = `${numberToWords(Math.floor(value / 1000))} thousand`;
+    return rest ? `${thousands} ${numberToWords(rest)}` : thousands;
+  }
+  return String(value);
+};
+
+// The reverse direction, used when text is read aloud or shown to learners
+export const digitsToSpelledNumbers: NormalizationStep = (text) =>
+  text.replace(/\b\d+\b/g, (digits) => numberToWords(parseInt(digits, 10)));
+
+export const DEFAULT_PIPELINE: NormalizationStep[] = [
+  toLowerCase,
+  removePunctuation,
+  expandContractions,
+  stripFillers,
+  stripArticles,
+  spelledNumbersToDigits,
+  collapseSpellingVariants,
+];
+
+const SPANISH_PIPELINE: NormalizationStep[] = [
+  toLowerCase,
+  removePunctuation,
+  stripDiacritics,
+  createFillerStripper(SPANISH_FILLER_PHRASES),
+  createArticleStripper(SPANISH_ARTICLES),
+];
+
+const FRENCH_PIPELINE: NormalizationStep[] = [
+  toLowerCase,
+  removePunctuation,
+  stripDiacritics,
+  splitElisions,
+  createFillerStripper(FRENCH_FILLER_PHRASES),
+  createArticleStripper(FRENCH_ARTICLES),
+];
+
+const PIPELINES: Record<CourseLanguage, NormalizationStep[]> = {
+  'en-US': DEFAULT_PIPELINE,
+  'es-ES': SPANISH_PIPELINE,
+  'fr-FR': FRENCH_PIPELINE,
+};
+
+// Number words and spelling variants are only known for English; other languages
+// get case, punctuation, accent, filler and article handling.
+export const getNormalizationPipeline = (language: CourseLanguage): NormalizationStep[] => PIPELINES[language];
+
+export const normalizeSpeech = (text: string, pipeline: NormalizationStep[] = DEFAULT_PIPELINE): string => {
+  const normalized = pipeline.reduce((result, step) => step(result), text);
+  // An answer made only of filler ("The", "Well") should still be comparable
+  return normalized || text.toLowerCase().trim();
+};
@@ -0,0 +1,103 @@
+import { getNormalizationPipeline, NormalizationStep, normalizeSpeech } from './textNormalization';
+import { CourseLanguage, DEFAULT_LANGUAGE } from './languages';
+
+export type VoiceCommand = 'repeat' | 'next' | 'skip' | 'hint' | 'slower' | 'back';
+
+interface CommandGrammar {
+  phrases: Record<VoiceCommand, string[]>;
+  // Saying the prefix forces a command, for when an answer option has the same
+  // name as one ("command next" on a question whose answer is "Next").
+  prefix: string;
+  politeness: string[];
+}
+
+// Phrases are compared after the language's normalization pipeline, so
+// articles, accents and fillers such as "um, repeat the question" are already
+// taken care of. Politeness words are matched after normalization and so are
+// written without accents or apostrophes.
+const GRAMMARS: Record<CourseLanguage, CommandGrammar> = {
+  'en-US': {
+    phrases: {
+      repeat: ['repeat', 'repeat question', 'say again', 'say it again', 'again', 'pardon'],
+      next: ['next', 'next question'],
+      skip: ['skip', 'skip question', 'skip this', 'pass'],
+      hint: ['hint', 'give me hint', 'help', 'what are options'],
+      slower: ['slower', 'slow down', 'more slowly', 'speak slower'],
+      back: ['go back to levels', 'back to levels', 'go back', 'exit', 'quit'],
+    },
+    prefix: 'command',
+    politeness: ['please'],
+  },
+  'es-ES': {
+    phrases: {
+      repeat: ['repite', 'repetir', 'repite la pregunta', 'otra vez', 'cómo'],
+      next: ['siguiente', 'siguiente pregunta'],
+      skip: ['saltar', 'salta', 'pasar', 'paso'],
+      hint: ['pista', 'dame una pista', 'ayuda'],
+      slower: ['más despacio', 'despacio', 'más lento', 'habla más despacio'],
+      back: ['volver a los niveles', 'volver', 'salir'],
+    },
+    prefix: 'comando',
+    politeness: ['por favor'],
+  },
+  'fr-FR': {
+    phrases: {
+      repeat: ['répète', 'répéter', 'répète la question', 'encore', 'pardon'],
+      next: ['suivant', 'question suivante', 'suivante'],
+      skip: ['passer', 'passe', 'sauter'],
+      hint: ['indice', 'aide', 'donne-moi un indice'],
+      slower: ['plus lentement', 'moins vite', 'parle plus lentement'],
+      back: ['retour aux niveaux', 'retour', 'quitter'],
+    },
+    prefix: 'commande',
+    politeness: ['s il te plait', 's il vous plait'],
+  },
+};
+
+const matchCommand = (text: string, grammar: CommandGrammar, pipeline: NormalizationStep[]): VoiceCommand | null => {
+  const phrase = grammar.politeness
+    .reduce((result, word) => ` ${result} `.split(` ${word} `).join(' '), text)
+    .replace(/\s+/g, ' ')
+    .trim();
+  const entry = Object.entries(grammar.phrases).find(([, phrases]) =>
+    phrases.some((candidate) => normalizeSpeech(candidate, pipeline) === phrase)
+  );
+  return entry ? (entry[0] as VoiceCommand) : null;
+};
+
+// A short list of things to say, for on-screen help
+export const getCommandExamples = (language: CourseLanguage = DEFAULT_LANGUAGE): string[] => {
+  const { phrases } = GRAMMARS[language];
+  return [phrases.repeat[0], phrases.slower[0], phrases.hint[0], phrases.skip[0], phrases.back[0]];
+};
+
+// Every command phrase plus the prefix, for engines that decode against a
+// fixed vocabulary
+export const getCommandPhrases = (language: CourseLanguage = DEFAULT_LANGUAGE): string[] => {
+  const { phrases, prefix } = GRAMMARS[language];
+  return [...Object.values(phrases).flat(), prefix];
+};
+
+// Recognizes a quiz command in a transcript. Answers take priority: a phrase
+// that is also one of `answers` is treated as an answer unless it is preceded
+// by the command prefix. The quiz passes the question's options and its
+// accepted phrasings, which it receives without their options.
+export const parseVoiceCommand = (
+  transcript: string,
+  answers: string[] = [],
+  language: CourseLanguage = DEFAULT_LANGUAGE
+): VoiceCommand | null => {
+  const grammar = GRAMMARS[language];
+  const pipeline = getNormalizationPipeline(language);
+  const spoken = normalizeSpeech(transcript, pipeline);
+
+  if (spoken.startsWith(`${grammar.prefix} `)) {
+    return matchCommand(spoken.slice(grammar.prefix.length + 1), grammar, pipeline);
+  }
+
+  const command = matchCommand(spoken, grammar, pipeline);
+  if (!command) return null;
+
+  const isAnswer = answers.some((answer) => normalizeSpeech(answer, pipeline) === spoken);
+  return isAnswer ? null : command;
+};
@@ -0,0 +1,152 @@
+import { compareTwoStrings } from 'string-similarity';
+import {
+  collapseSpellingVariants,
+  NormalizationStep,
+  removePunctuation,
+  spelledNumbersToDigits,
+  stripDiacritics,
+  toLowerCase,
+} from './textNormalization';
+import { CourseLanguage, DEFAULT_LANGUAGE, isEnglish } from './languages';
+
+export type WordDiffType = 'match' | 'missing' | 'extra' | 'substituted';
+
+export interface WordDiffEntry {
+  type: WordDiffType;
+  expected: string | null;
+  spoken: string | null;
+}
+
+export interface WordDiff {
+  entries: WordDiffEntry[];
+  // Share of target words repeated correctly, 0-100
+  accuracy: number;
+}
+
+// Every word counts when shadowing, so unlike answer matching nothing is
+// stripped; words are only made comparable ("Two" vs "2", "colour" vs "color").
+const WORD_PIPELINE: NormalizationStep[] = [
+  toLowerCase,
+  removePunctuation,
+  spelledNumbersToDigits,
+  collapseSpellingVariants,
+];
+
+// Number words and spelling variants are English only; elsewhere accents are ignored
+// so "cafe" still counts for "café"
+const FOREIGN_WORD_PIPELINE: NormalizationStep[] = [toLowerCase, removePunctuation, stripDiacritics];
+
+// Typed answers are checked letter for letter, accents included
+const SPELLING_PIPELINE: NormalizationStep[] = [toLowerCase, removePunctuation];
+
+interface Token {
+  text: string;
+  key: string;
+}
+
+const normalizedWords = (text: string, pipeline: NormalizationStep[]): string[] =>
+  pipeline
+    .reduce((result, step) => step(result), text)
+    .split(/\s+/)
+    .filter((word) => /[\p{L}\p{N}]/u.test(word));
+
+// The whole text is normalized at once, so steps that join or split words
+// ("twenty one" -> "21", "check-in" -> "check in") see all of them. Each
+// normalized word is then traced back to the original words it came from by
+// normalizing ever longer prefixes of the text; a word split into several
+// is shown in its normalized form.
+const tokenize = (text: string, pipeline: NormalizationStep[]): Token[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const keys = normalizedWords(text, pipeline);
+  const prefixCounts = words.map((_, index) => normalizedWords(words.slice(0, index + 1).join(' '), pipeline).length);
+
+  // Key k starts at the first original word from which every longer prefix
+  // already yields it ("one hundred and" briefly yields an extra "and")
+  const starts = keys.map((_, k) => {
+    let start = words.length - 1;
+    while (start > 0 && prefixCounts[start - 1] > k) start--;
+    return start;
+  });
+
+  return keys.map((key, k) => {
+    const start = starts[k];
+    const end = k + 1 < keys.length ? starts[k + 1] : words.length;
+    const shared = starts[k - 1] === start || starts[k + 1] === start;
+    return { key, text: shared ? key : words.slice(start, end).join(' ') };
+  });
+};
+
+// Misheard words that look alike ("menu" / "manu") are cheaper to pair up
+// than unrelated ones, which keeps substitutions next to the word they replace
+const substitutionCost = (a: Token, b: Token): number =>
+  a.key === b.key ? 0 : 1 - compareTwoStrings(a.key, b.key) / 2;
+
+// Aligns the spoken words against the target with a word-level edit distance,
+// so "I like glass of water" against "I would like a glass of water" reports
+// "would" and "a" as missing rather than shifting every later word.
+export const diffWords = (
+  spokenText: string,
+  targetText: string,
+  language: CourseLanguage = DEFAULT_LANGUAGE,
+  pipeline: NormalizationStep[] = isEnglish(language) ? WORD_PIPELINE : FOREIGN_WORD_PIPELINE
+): WordDiff => {
+  const spoken = tokenize(spokenText, pipeline);
+  const target = tokenize(targetText, pipeline);
+
+  // cost[i][j]: edits to turn the first i target words into the first j spoken words
+  const cost = Array.from({ length: target.length + 1 }, (_, i) =>
+    Array.from({ length: spoken.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= target.length; i++) {
+    for (let j = 1; j <= spoken.length; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(target[i - 1], spoken[j - 1]),
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  const entries: WordDiffEntry[] = [];
+  let i = target.length;
+  let j = spoken.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(target[i - 1], spoken[j - 1])) {
+      const type = target[i - 1].key === spoken[j - 1].key ? 'match' : 'substituted';
+      entries.unshift({ type, expected: target[i - 1].text, spoken: spoken[j - 1].text });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      entries.unshift({ type: 'missing', expected: target[i - 1].text, spoken: null });
+      i--;
+    } else {
+      entries.unshift({ type: 'extra', expected: null, spoken: spoken[j - 1].text });
+      j--;
+    }
+  }
+
+  const matches = entries.filter((entry) => entry.type === 'match').length;
+  const accuracy = target.length > 0 ? Math.round((matches / target.length) * 100) : 0;
+
+  return { entries, accuracy };
+};
+
+export interface SpellingFix {
+  typed: string;
+  correct: string;
+}
+
+const trimPunctuation = (word: string) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+// Words of a typed answer that are spelled differently from the answer they
+// were matched to, e.g. "menue" for "menu" or "cafe" for "café"
+export const findSpellingFixes = (
+  typedText: string,
+  targetText: string,
+  language: CourseLanguage = DEFAULT_LANGUAGE
+): SpellingFix[] =>
+  diffWords(typedText, targetText, language, SPELLING_PIPELINE).entries.flatMap((entry) =>
+    entry.type === 'substituted' ? [{ typed: trimPunctuation(entry.spoken!), correct: trimPunctuation(entry.expected!) }] : []
+  );
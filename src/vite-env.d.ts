@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SPEECH_ENGINE?: string;
+  readonly VITE_SPEECH_SCRIPT?: string;
+  readonly VITE_TRANSCRIPTION_URL?: string;
+  readonly VITE_OFFLINE_MODEL_BASE_URL?: string;
+}
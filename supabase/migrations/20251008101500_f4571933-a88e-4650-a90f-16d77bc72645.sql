@@ -0,0 +1,32 @@
+-- Accepted answer variants: maps each option to alternative phrasings that
+-- should be treated as that option when spoken, e.g. {"Check": ["bill"]}
+ALTER TABLE public.questions
+  ADD COLUMN accepted_variants JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.questions
+  ADD CONSTRAINT accepted_variants_is_object CHECK (jsonb_typeof(accepted_variants) = 'object');
+
+-- Seed variants for existing questions
+UPDATE public.questions
+SET accepted_variants = '{"Check": ["bill", "the check, please", "the bill, please"]}'::jsonb
+WHERE correct_answer = 'Check';
+
+UPDATE public.questions
+SET accepted_variants = '{"Boarding Pass": ["boarding card"]}'::jsonb
+WHERE correct_answer = 'Boarding Pass';
+
+UPDATE public.questions
+SET accepted_variants = '{"Luggage": ["baggage", "bags"]}'::jsonb
+WHERE correct_answer = 'Luggage';
+
+UPDATE public.questions
+SET accepted_variants = '{"Register": ["checkout", "till", "cash register"]}'::jsonb
+WHERE correct_answer = 'Register';
+
+UPDATE public.questions
+SET accepted_variants = '{"Pharmacy": ["drugstore", "chemist"]}'::jsonb
+WHERE correct_answer = 'Pharmacy';
+
+UPDATE public.questions
+SET accepted_variants = '{"Resume": ["CV", "curriculum vitae"]}'::jsonb
+WHERE correct_answer = 'Resume';
@@ -0,0 +1,17 @@
+-- Spoken answer thresholds. A match scoring at least match_threshold is
+-- submitted directly; one between confirm_threshold and match_threshold asks
+-- the learner to confirm first. Question values override the level's.
+ALTER TABLE public.levels
+  ADD COLUMN match_threshold REAL NOT NULL DEFAULT 0.7,
+  ADD COLUMN confirm_threshold REAL NOT NULL DEFAULT 0.5,
+  ADD CONSTRAINT level_thresholds_range CHECK (
+    confirm_threshold >= 0 AND confirm_threshold <= match_threshold AND match_threshold <= 1
+  );
+
+ALTER TABLE public.questions
+  ADD COLUMN match_threshold REAL,
+  ADD COLUMN confirm_threshold REAL,
+  ADD CONSTRAINT question_thresholds_range CHECK (
+    (match_threshold IS NULL OR match_threshold BETWEEN 0 AND 1)
+    AND (confirm_threshold IS NULL OR confirm_threshold BETWEEN 0 AND 1)
+  );
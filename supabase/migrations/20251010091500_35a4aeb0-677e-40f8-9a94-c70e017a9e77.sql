@@ -0,0 +1,56 @@
+-- Every spoken answer attempt, with the learner's recorded audio
+CREATE TABLE public.speech_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  level_id UUID NOT NULL REFERENCES public.levels(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  transcript TEXT,
+  matched_option TEXT,
+  is_correct BOOLEAN,
+  audio_path TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX speech_attempts_user_id_idx ON public.speech_attempts (user_id, created_at DESC);
+
+ALTER TABLE public.speech_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own speech attempts"
+  ON public.speech_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own speech attempts"
+  ON public.speech_attempts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all speech attempts"
+  ON public.speech_attempts FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- Private bucket for attempt audio; objects live under "<user_id>/..."
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attempt-audio', 'attempt-audio', false);
+
+CREATE POLICY "Users can upload their own attempt audio"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attempt-audio'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can listen to their own attempt audio"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attempt-audio'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Admins can listen to all attempt audio"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attempt-audio'
+    AND public.is_admin(auth.uid())
+  );
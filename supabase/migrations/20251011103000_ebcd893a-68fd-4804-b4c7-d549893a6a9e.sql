@@ -0,0 +1,29 @@
+-- Per-user text-to-speech preferences
+CREATE TABLE public.speech_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  voice_uri TEXT,
+  accent TEXT NOT NULL DEFAULT 'en-US' CHECK (accent IN ('en-US', 'en-GB', 'en-AU', 'en-IN')),
+  rate REAL NOT NULL DEFAULT 0.9 CHECK (rate BETWEEN 0.5 AND 2),
+  pitch REAL NOT NULL DEFAULT 1 CHECK (pitch BETWEEN 0 AND 2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.speech_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own speech settings"
+  ON public.speech_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own speech settings"
+  ON public.speech_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own speech settings"
+  ON public.speech_settings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_speech_settings_updated_at
+  BEFORE UPDATE ON public.speech_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
@@ -0,0 +1,69 @@
+-- Model sentences for the shadowing drill: the app reads each one aloud and
+-- the learner repeats it
+CREATE TABLE public.shadowing_sentences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  level_id UUID NOT NULL REFERENCES public.levels(id) ON DELETE CASCADE,
+  sentence TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX shadowing_sentences_level_id_idx ON public.shadowing_sentences (level_id, position);
+
+ALTER TABLE public.shadowing_sentences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view shadowing sentences"
+  ON public.shadowing_sentences FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert shadowing sentences"
+  ON public.shadowing_sentences FOR INSERT
+  WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can update shadowing sentences"
+  ON public.shadowing_sentences FOR UPDATE
+  USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete shadowing sentences"
+  ON public.shadowing_sentences FOR DELETE
+  USING (public.is_admin(auth.uid()));
+
+-- One row per repetition, with the share of target words said correctly
+CREATE TABLE public.shadowing_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  sentence_id UUID NOT NULL REFERENCES public.shadowing_sentences(id) ON DELETE CASCADE,
+  transcript TEXT NOT NULL,
+  accuracy NUMERIC(5,2) NOT NULL CHECK (accuracy BETWEEN 0 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX shadowing_results_user_id_idx ON public.shadowing_results (user_id, created_at DESC);
+
+ALTER TABLE public.shadowing_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own shadowing results"
+  ON public.shadowing_results FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own shadowing results"
+  ON public.shadowing_results FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all shadowing results"
+  ON public.shadowing_results FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- Starter sentences for the first levels
+INSERT INTO public.shadowing_sentences (level_id, sentence, position)
+SELECT l.id, s.sentence, s.position
+FROM public.levels l
+JOIN (VALUES
+  (1, 'Could I see the menu, please?', 1),
+  (1, 'I would like a glass of water.', 2),
+  (1, 'Can we have the check, please?', 3),
+  (2, 'Where is the check-in counter?', 1),
+  (2, 'Here is my passport and boarding pass.', 2),
+  (2, 'Is this seat by the window?', 3)
+) AS s(level_number, sentence, position) ON s.level_number = l.level_number;
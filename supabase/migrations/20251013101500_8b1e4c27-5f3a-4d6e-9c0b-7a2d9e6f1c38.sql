@@ -0,0 +1,33 @@
+-- Optional recordings by a native speaker, played instead of synthetic speech.
+-- option_audio maps option text to its recording URL, like accepted_variants.
+ALTER TABLE public.questions
+  ADD COLUMN audio_url TEXT,
+  ADD COLUMN option_audio JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Public bucket so learners can stream the recordings; only admins manage them
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('question-audio', 'question-audio', true);
+
+CREATE POLICY "Admins can upload question audio"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'question-audio'
+    AND public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "Admins can update question audio"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'question-audio'
+    AND public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "Admins can delete question audio"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'question-audio'
+    AND public.is_admin(auth.uid())
+  );
@@ -0,0 +1,37 @@
+-- Each level belongs to the course of one target language, which drives the
+-- recognition locale, the voice and the answer normalization rules
+ALTER TABLE public.levels
+  ADD COLUMN language TEXT NOT NULL DEFAULT 'en-US'
+  CONSTRAINT levels_language_check CHECK (language IN ('en-US', 'es-ES', 'fr-FR'));
+
+CREATE INDEX levels_language_idx ON public.levels (language, level_number);
+
+-- New learners start with the first level of every course unlocked
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, username, role)
+  VALUES (
+    new.id,
+    COALESCE(new.raw_user_meta_data->>'username', split_part(new.email, '@', 1)),
+    'student'
+  );
+  
+  INSERT INTO public.progress (user_id, level_number, status)
+  SELECT
+    new.id,
+    level_number,
+    CASE
+      WHEN level_number = MIN(level_number) OVER (PARTITION BY language) THEN 'unlocked'
+      ELSE 'locked'
+    END
+  FROM public.levels
+  ORDER BY level_number;
+  
+  RETURN new;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- Fluency measurements for each spoken attempt. All of them are optional:
+-- engines that cannot tell when speech starts leave the timings empty.
+ALTER TABLE public.speech_attempts
+  ADD COLUMN response_latency_ms INTEGER CHECK (response_latency_ms >= 0),
+  ADD COLUMN utterance_duration_ms INTEGER CHECK (utterance_duration_ms >= 0),
+  ADD COLUMN words_per_minute NUMERIC(6, 1) CHECK (words_per_minute >= 0),
+  ADD COLUMN retries INTEGER NOT NULL DEFAULT 0 CHECK (retries >= 0);
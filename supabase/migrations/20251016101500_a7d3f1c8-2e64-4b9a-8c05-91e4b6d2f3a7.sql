@@ -0,0 +1,4 @@
+-- Typed answers are stored alongside spoken ones so analytics can tell them apart
+ALTER TABLE public.speech_attempts
+  ADD COLUMN input_mode TEXT NOT NULL DEFAULT 'spoken'
+  CONSTRAINT speech_attempts_input_mode_check CHECK (input_mode IN ('spoken', 'typed'));
@@ -0,0 +1,57 @@
+-- Students must never receive correct_answer. Only admins read the questions
+-- table directly; everyone else reads the quiz_questions view, which leaves
+-- the answer out, and checks answers through submit_answer().
+DROP POLICY "Everyone can view questions" ON public.questions;
+
+CREATE POLICY "Admins can view questions"
+  ON public.questions FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- The view runs with its owner's rights, so it can read past the policy above
+CREATE VIEW public.quiz_questions
+WITH (security_barrier = true)
+AS
+SELECT
+  id,
+  level_id,
+  question_text,
+  image_url,
+  options,
+  accepted_variants,
+  match_threshold,
+  confirm_threshold,
+  audio_url,
+  option_audio,
+  created_at
+FROM public.questions
+WHERE auth.uid() IS NOT NULL;
+
+REVOKE ALL ON public.quiz_questions FROM anon;
+GRANT SELECT ON public.quiz_questions TO authenticated;
+
+-- Grades an answer on the server and only then reveals the canonical answer
+CREATE OR REPLACE FUNCTION public.submit_answer(_question_id UUID, _answer TEXT)
+RETURNS TABLE (is_correct BOOLEAN, correct_answer TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.correct_answer = _answer, q.correct_answer
+  FROM public.questions q
+  WHERE q.id = _question_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question % not found', _question_id USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_answer(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_answer(UUID, TEXT) TO authenticated;
@@ -0,0 +1,166 @@
+-- One row per run through a level's quiz. Score and mistakes are counted by
+-- submit_answer() as answers come in; the client only marks the run as ended.
+CREATE TABLE public.quiz_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  level_id UUID NOT NULL REFERENCES public.levels(id) ON DELETE CASCADE,
+  -- How the learner chose to answer when the run started
+  mode TEXT NOT NULL DEFAULT 'spoken' CHECK (mode IN ('spoken', 'typed')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  score INTEGER NOT NULL DEFAULT 0,
+  mistakes INTEGER NOT NULL DEFAULT 0,
+  -- NULL while the run is in progress or when it was abandoned
+  outcome TEXT CHECK (outcome IN ('passed', 'failed'))
+);
+
+CREATE INDEX quiz_attempts_user_id_idx ON public.quiz_attempts (user_id, started_at DESC);
+CREATE INDEX quiz_attempts_level_id_idx ON public.quiz_attempts (level_id);
+
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quiz attempts"
+  ON public.quiz_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own quiz attempts"
+  ON public.quiz_attempts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- A run can be ended once; its outcome is then fixed
+CREATE POLICY "Users can end their own quiz attempts"
+  ON public.quiz_attempts FOR UPDATE
+  USING (auth.uid() = user_id AND ended_at IS NULL);
+
+CREATE POLICY "Admins can view all quiz attempts"
+  ON public.quiz_attempts FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- Learners may only end a run; the counts are kept by submit_answer()
+REVOKE INSERT, UPDATE ON public.quiz_attempts FROM authenticated;
+GRANT INSERT (user_id, level_id, mode) ON public.quiz_attempts TO authenticated;
+GRANT UPDATE (ended_at, outcome) ON public.quiz_attempts TO authenticated;
+
+-- Every answer given during a run. Only the first answer to a question counts.
+CREATE TABLE public.attempt_answers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id UUID NOT NULL REFERENCES public.quiz_attempts(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  answer TEXT NOT NULL,
+  input_mode TEXT NOT NULL CHECK (input_mode IN ('spoken', 'typed', 'clicked')),
+  -- What was heard or typed; NULL for clicked options
+  transcript TEXT,
+  -- 0-1 similarity of the transcript to the matched option
+  similarity NUMERIC(4,3) CHECK (similarity BETWEEN 0 AND 1),
+  is_correct BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (attempt_id, question_id)
+);
+
+ALTER TABLE public.attempt_answers ENABLE ROW LEVEL SECURITY;
+
+-- Answers are only written by submit_answer(), so there is no insert policy
+CREATE POLICY "Users can view their own attempt answers"
+  ON public.attempt_answers FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.quiz_attempts a
+    WHERE a.id = attempt_id AND a.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all attempt answers"
+  ON public.attempt_answers FOR SELECT
+  USING (public.is_admin(auth.uid()));
+
+-- submit_answer() now records the answer against a quiz attempt
+DROP FUNCTION public.submit_answer(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.submit_answer(
+  _attempt_id UUID,
+  _question_id UUID,
+  _answer TEXT,
+  _input_mode TEXT DEFAULT 'clicked',
+  _transcript TEXT DEFAULT NULL,
+  _similarity NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (is_correct BOOLEAN, correct_answer TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _level_id UUID;
+  _correct_answer TEXT;
+  _inserted BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT a.level_id INTO _level_id
+  FROM public.quiz_attempts a
+  WHERE a.id = _attempt_id AND a.user_id = auth.uid() AND a.ended_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt % is not in progress', _attempt_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT q.correct_answer INTO _correct_answer
+  FROM public.questions q
+  WHERE q.id = _question_id AND q.level_id = _level_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question % not found', _question_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.attempt_answers (attempt_id, question_id, answer, input_mode, transcript, similarity, is_correct)
+  VALUES (_attempt_id, _question_id, _answer, _input_mode, _transcript, _similarity, _answer = _correct_answer)
+  ON CONFLICT (attempt_id, question_id) DO NOTHING
+  RETURNING true INTO _inserted;
+
+  IF _inserted THEN
+    UPDATE public.quiz_attempts
+    SET score = score + (_answer = _correct_answer)::int,
+        mistakes = mistakes + (_answer <> _correct_answer)::int
+    WHERE id = _attempt_id;
+  END IF;
+
+  -- A repeated answer gets the verdict on the first one
+  RETURN QUERY
+  SELECT aa.is_correct, _correct_answer
+  FROM public.attempt_answers aa
+  WHERE aa.attempt_id = _attempt_id AND aa.question_id = _question_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_answer(UUID, UUID, TEXT, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_answer(UUID, UUID, TEXT, TEXT, TEXT, NUMERIC) TO authenticated;
+
+-- progress.high_score is now the best score of the learner's passed runs,
+-- so a failed run can no longer wipe it out
+CREATE OR REPLACE FUNCTION public.refresh_high_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.progress p
+  SET high_score = COALESCE((
+    SELECT MAX(a.score)
+    FROM public.quiz_attempts a
+    WHERE a.user_id = NEW.user_id AND a.level_id = NEW.level_id AND a.outcome = 'passed'
+  ), 0)
+  FROM public.levels l
+  WHERE l.id = NEW.level_id
+    AND p.user_id = NEW.user_id
+    AND p.level_number = l.level_number;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_high_score_on_quiz_attempt
+  AFTER UPDATE OF outcome ON public.quiz_attempts
+  FOR EACH ROW
+  WHEN (NEW.outcome IS DISTINCT FROM OLD.outcome)
+  EXECUTE FUNCTION public.refresh_high_score();
@@ -0,0 +1,97 @@
+-- Learners could set any progress they liked from the browser. Progress now
+-- only changes through complete_quiz_attempt(), which works out the outcome
+-- from the answers the database graded itself.
+DROP POLICY "Users can update their own progress" ON public.progress;
+DROP POLICY "Users can insert their own progress" ON public.progress;
+
+-- Runs are ended by complete_quiz_attempt() as well
+DROP POLICY "Users can end their own quiz attempts" ON public.quiz_attempts;
+REVOKE UPDATE ON public.quiz_attempts FROM authenticated;
+
+-- A run can only be started on a level the learner has unlocked. Levels added
+-- after sign-up have no progress row yet and count as unlocked.
+DROP POLICY "Users can insert their own quiz attempts" ON public.quiz_attempts;
+
+CREATE POLICY "Users can insert their own quiz attempts"
+  ON public.quiz_attempts FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.progress p
+      JOIN public.levels l ON l.level_number = p.level_number
+      WHERE l.id = level_id AND p.user_id = auth.uid() AND p.status = 'locked'
+    )
+  );
+
+-- Ends a run. It passes with fewer than 3 mistakes and every question
+-- answered; skipped questions are unanswered. Passing completes the level and
+-- unlocks the next level of the same course. Failing leaves progress as it
+-- was, so a completed level is never locked again.
+CREATE OR REPLACE FUNCTION public.complete_quiz_attempt(_attempt_id UUID)
+RETURNS TABLE (outcome TEXT, score INTEGER, mistakes INTEGER, next_level_number INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _level public.levels%ROWTYPE;
+  _question_count INTEGER;
+  _answered INTEGER;
+  _score INTEGER;
+  _mistakes INTEGER;
+  _outcome TEXT;
+  _next_level_number INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT l.* INTO _level
+  FROM public.quiz_attempts a
+  JOIN public.levels l ON l.id = a.level_id
+  WHERE a.id = _attempt_id AND a.user_id = _user_id AND a.ended_at IS NULL
+  FOR UPDATE OF a;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt % is not in progress', _attempt_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COUNT(*) INTO _question_count FROM public.questions q WHERE q.level_id = _level.id;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE aa.is_correct), COUNT(*) FILTER (WHERE NOT aa.is_correct)
+  INTO _answered, _score, _mistakes
+  FROM public.attempt_answers aa
+  WHERE aa.attempt_id = _attempt_id;
+
+  _outcome := CASE WHEN _mistakes < 3 AND _answered = _question_count THEN 'passed' ELSE 'failed' END;
+
+  IF _outcome = 'passed' THEN
+    INSERT INTO public.progress (user_id, level_number, status)
+    VALUES (_user_id, _level.level_number, 'completed')
+    ON CONFLICT (user_id, level_number) DO UPDATE SET status = 'completed';
+
+    SELECT MIN(l.level_number) INTO _next_level_number
+    FROM public.levels l
+    WHERE l.language = _level.language AND l.level_number > _level.level_number;
+
+    IF _next_level_number IS NOT NULL THEN
+      INSERT INTO public.progress AS p (user_id, level_number, status)
+      VALUES (_user_id, _next_level_number, 'unlocked')
+      ON CONFLICT (user_id, level_number) DO UPDATE SET status = 'unlocked'
+      WHERE p.status = 'locked';
+    END IF;
+  END IF;
+
+  -- After the progress rows exist, so the high score trigger can fill them in
+  UPDATE public.quiz_attempts a
+  SET ended_at = now(), score = _score, mistakes = _mistakes, outcome = _outcome
+  WHERE a.id = _attempt_id;
+
+  RETURN QUERY SELECT _outcome, _score, _mistakes, _next_level_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_quiz_attempt(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.complete_quiz_attempt(UUID) TO authenticated;
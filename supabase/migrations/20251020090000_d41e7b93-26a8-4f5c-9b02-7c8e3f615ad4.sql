@@ -0,0 +1,72 @@
+-- Keep the answer that was revealed with each verdict, so the results screen
+-- can show it without giving learners access to the questions table
+ALTER TABLE public.attempt_answers ADD COLUMN correct_answer TEXT;
+
+UPDATE public.attempt_answers aa
+SET correct_answer = q.correct_answer
+FROM public.questions q
+WHERE q.id = aa.question_id;
+
+ALTER TABLE public.attempt_answers ALTER COLUMN correct_answer SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.submit_answer(
+  _attempt_id UUID,
+  _question_id UUID,
+  _answer TEXT,
+  _input_mode TEXT DEFAULT 'clicked',
+  _transcript TEXT DEFAULT NULL,
+  _similarity NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (is_correct BOOLEAN, correct_answer TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _level_id UUID;
+  _correct_answer TEXT;
+  _inserted BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT a.level_id INTO _level_id
+  FROM public.quiz_attempts a
+  WHERE a.id = _attempt_id AND a.user_id = auth.uid() AND a.ended_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt % is not in progress', _attempt_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT q.correct_answer INTO _correct_answer
+  FROM public.questions q
+  WHERE q.id = _question_id AND q.level_id = _level_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question % not found', _question_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.attempt_answers (
+    attempt_id, question_id, answer, correct_answer, input_mode, transcript, similarity, is_correct
+  )
+  VALUES (
+    _attempt_id, _question_id, _answer, _correct_answer, _input_mode, _transcript, _similarity, _answer = _correct_answer
+  )
+  ON CONFLICT (attempt_id, question_id) DO NOTHING
+  RETURNING true INTO _inserted;
+
+  IF _inserted THEN
+    UPDATE public.quiz_attempts
+    SET score = score + (_answer = _correct_answer)::int,
+        mistakes = mistakes + (_answer <> _correct_answer)::int
+    WHERE id = _attempt_id;
+  END IF;
+
+  -- A repeated answer gets the verdict on the first one
+  RETURN QUERY
+  SELECT aa.is_correct, aa.correct_answer
+  FROM public.attempt_answers aa
+  WHERE aa.attempt_id = _attempt_id AND aa.question_id = _question_id;
+END;
+$$;
@@ -0,0 +1,201 @@
+-- Per-level quiz rules, replacing the fixed "3 mistakes and you're out"
+ALTER TABLE public.levels
+  -- The quiz ends on this many mistakes; NULL for no limit
+  ADD COLUMN max_mistakes INTEGER DEFAULT 3 CHECK (max_mistakes > 0),
+  -- Percentage of the questions that must be answered correctly to pass
+  ADD COLUMN pass_mark INTEGER NOT NULL DEFAULT 0 CHECK (pass_mark BETWEEN 0 AND 100),
+  -- NULL for no time limit
+  ADD COLUMN time_limit_seconds INTEGER CHECK (time_limit_seconds > 0),
+  -- How many questions to draw from the level's pool; NULL for all of them
+  ADD COLUMN question_count INTEGER CHECK (question_count > 0);
+
+-- The questions drawn for a run, in the order they are asked
+ALTER TABLE public.quiz_attempts ADD COLUMN question_ids UUID[];
+
+UPDATE public.quiz_attempts a
+SET question_ids = ARRAY(
+  SELECT q.id FROM public.questions q WHERE q.level_id = a.level_id ORDER BY q.created_at
+);
+
+ALTER TABLE public.quiz_attempts ALTER COLUMN question_ids SET NOT NULL;
+
+-- Draws the run's questions when it starts, so learners cannot pick them.
+-- Levels that use their whole pool keep asking in the usual order.
+CREATE OR REPLACE FUNCTION public.draw_quiz_questions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _question_count INTEGER;
+BEGIN
+  SELECT l.question_count INTO _question_count FROM public.levels l WHERE l.id = NEW.level_id;
+
+  NEW.question_ids := ARRAY(
+    SELECT q.id
+    FROM public.questions q
+    WHERE q.level_id = NEW.level_id
+    ORDER BY CASE WHEN _question_count IS NULL THEN 0 ELSE random() END, q.created_at
+    LIMIT _question_count
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER draw_quiz_questions_on_insert
+  BEFORE INSERT ON public.quiz_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.draw_quiz_questions();
+
+-- Late answers get a few seconds of grace for the round trip
+CREATE OR REPLACE FUNCTION public.submit_answer(
+  _attempt_id UUID,
+  _question_id UUID,
+  _answer TEXT,
+  _input_mode TEXT DEFAULT 'clicked',
+  _transcript TEXT DEFAULT NULL,
+  _similarity NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (is_correct BOOLEAN, correct_answer TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt public.quiz_attempts%ROWTYPE;
+  _level public.levels%ROWTYPE;
+  _correct_answer TEXT;
+  _inserted BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT a.* INTO _attempt
+  FROM public.quiz_attempts a
+  WHERE a.id = _attempt_id AND a.user_id = auth.uid() AND a.ended_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt % is not in progress', _attempt_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT l.* INTO _level FROM public.levels l WHERE l.id = _attempt.level_id;
+
+  IF _level.time_limit_seconds IS NOT NULL
+    AND now() > _attempt.started_at + make_interval(secs => _level.time_limit_seconds + 5) THEN
+    RAISE EXCEPTION 'Time is up for quiz attempt %', _attempt_id USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _level.max_mistakes IS NOT NULL AND _attempt.mistakes >= _level.max_mistakes THEN
+    RAISE EXCEPTION 'Quiz attempt % has reached the mistake limit', _attempt_id USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT q.correct_answer INTO _correct_answer
+  FROM public.questions q
+  WHERE q.id = _question_id AND q.id = ANY(_attempt.question_ids);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question % not found', _question_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.attempt_answers (
+    attempt_id, question_id, answer, correct_answer, input_mode, transcript, similarity, is_correct
+  )
+  VALUES (
+    _attempt_id, _question_id, _answer, _correct_answer, _input_mode, _transcript, _similarity, _answer = _correct_answer
+  )
+  ON CONFLICT (attempt_id, question_id) DO NOTHING
+  RETURNING true INTO _inserted;
+
+  IF _inserted THEN
+    UPDATE public.quiz_attempts
+    SET score = score + (_answer = _correct_answer)::int,
+        mistakes = mistakes + (_answer <> _correct_answer)::int
+    WHERE id = _attempt_id;
+  END IF;
+
+  -- A repeated answer gets the verdict on the first one
+  RETURN QUERY
+  SELECT aa.is_correct, aa.correct_answer
+  FROM public.attempt_answers aa
+  WHERE aa.attempt_id = _attempt_id AND aa.question_id = _question_id;
+END;
+$$;
+
+-- A run passes when every drawn question was answered, the mistake limit was
+-- not reached and the score meets the pass mark. Questions left unanswered
+-- when time runs out count against the run.
+CREATE OR REPLACE FUNCTION public.complete_quiz_attempt(_attempt_id UUID)
+RETURNS TABLE (outcome TEXT, score INTEGER, mistakes INTEGER, next_level_number INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _level public.levels%ROWTYPE;
+  _question_count INTEGER;
+  _answered INTEGER;
+  _score INTEGER;
+  _mistakes INTEGER;
+  _outcome TEXT;
+  _next_level_number INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT cardinality(a.question_ids) INTO _question_count
+  FROM public.quiz_attempts a
+  WHERE a.id = _attempt_id AND a.user_id = _user_id AND a.ended_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt % is not in progress', _attempt_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT l.* INTO _level
+  FROM public.quiz_attempts a
+  JOIN public.levels l ON l.id = a.level_id
+  WHERE a.id = _attempt_id;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE aa.is_correct), COUNT(*) FILTER (WHERE NOT aa.is_correct)
+  INTO _answered, _score, _mistakes
+  FROM public.attempt_answers aa
+  WHERE aa.attempt_id = _attempt_id;
+
+  _outcome := CASE
+    WHEN _answered = _question_count
+      AND (_level.max_mistakes IS NULL OR _mistakes < _level.max_mistakes)
+      AND _score * 100 >= _level.pass_mark * _question_count
+    THEN 'passed'
+    ELSE 'failed'
+  END;
+
+  IF _outcome = 'passed' THEN
+    INSERT INTO public.progress (user_id, level_number, status)
+    VALUES (_user_id, _level.level_number, 'completed')
+    ON CONFLICT (user_id, level_number) DO UPDATE SET status = 'completed';
+
+    SELECT MIN(l.level_number) INTO _next_level_number
+    FROM public.levels l
+    WHERE l.language = _level.language AND l.level_number > _level.level_number;
+
+    IF _next_level_number IS NOT NULL THEN
+      INSERT INTO public.progress AS p (user_id, level_number, status)
+      VALUES (_user_id, _next_level_number, 'unlocked')
+      ON CONFLICT (user_id, level_number) DO UPDATE SET status = 'unlocked'
+      WHERE p.status = 'locked';
+    END IF;
+  END IF;
+
+  -- After the progress rows exist, so the high score trigger can fill them in
+  UPDATE public.quiz_attempts a
+  SET ended_at = now(), score = _score, mistakes = _mistakes, outcome = _outcome
+  WHERE a.id = _attempt_id;
+
+  RETURN QUERY SELECT _outcome, _score, _mistakes, _next_level_number;
+END;
+$$;
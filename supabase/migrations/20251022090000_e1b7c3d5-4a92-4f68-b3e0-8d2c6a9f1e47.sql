@@ -0,0 +1,149 @@
+-- Accepted variants were usually only written for the correct option, so
+-- showing them to learners gave the answer away. They are now only read by
+-- submit_answer(), which resolves a phrasing to its option on the server.
+DROP VIEW public.quiz_questions;
+
+-- True when the map is empty or has an entry for every option
+CREATE OR REPLACE FUNCTION public.covers_every_option(_options TEXT[], _map JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _map = '{}'::jsonb OR NOT EXISTS (
+    SELECT 1 FROM unnest(_options) AS o(option) WHERE NOT (_map ? o.option)
+  );
+$$;
+
+-- Option recordings are only shown when every option has one, so which
+-- options were recorded says nothing about the answer
+CREATE VIEW public.quiz_questions
+WITH (security_barrier = true)
+AS
+SELECT
+  id,
+  level_id,
+  question_text,
+  image_url,
+  options,
+  match_threshold,
+  confirm_threshold,
+  audio_url,
+  CASE WHEN public.covers_every_option(options, option_audio) THEN option_audio ELSE '{}'::jsonb END AS option_audio,
+  created_at
+FROM public.questions
+WHERE auth.uid() IS NOT NULL;
+
+REVOKE ALL ON public.quiz_questions FROM anon;
+GRANT SELECT ON public.quiz_questions TO authenticated;
+
+-- Case, punctuation and spacing do not matter when resolving a phrasing
+CREATE OR REPLACE FUNCTION public.normalize_answer(_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(regexp_replace(lower(_text), '[[:punct:]]+', '', 'g'), '\s+', ' ', 'g'));
+$$;
+
+-- _answer may now be an option or any accepted phrasing of one. An answer
+-- that matches no option returns no row and is not recorded.
+DROP FUNCTION public.submit_answer(UUID, UUID, TEXT, TEXT, TEXT, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.submit_answer(
+  _attempt_id UUID,
+  _question_id UUID,
+  _answer TEXT,
+  _input_mode TEXT DEFAULT 'clicked',
+  _transcript TEXT DEFAULT NULL,
+  _similarity NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (answer TEXT, is_correct BOOLEAN, correct_answer TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attempt public.quiz_attempts%ROWTYPE;
+  _level public.levels%ROWTYPE;
+  _question public.questions%ROWTYPE;
+  _option TEXT;
+  _inserted BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT a.* INTO _attempt
+  FROM public.quiz_attempts a
+  WHERE a.id = _attempt_id AND a.user_id = auth.uid() AND a.ended_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt % is not in progress', _attempt_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT l.* INTO _level FROM public.levels l WHERE l.id = _attempt.level_id;
+
+  -- Late answers get a few seconds of grace for the round trip
+  IF _level.time_limit_seconds IS NOT NULL
+    AND now() > _attempt.started_at + make_interval(secs => _level.time_limit_seconds + 5) THEN
+    RAISE EXCEPTION 'Time is up for quiz attempt %', _attempt_id USING ERRCODE = 'P0001';
+  END IF;
+
+  IF _level.max_mistakes IS NOT NULL AND _attempt.mistakes >= _level.max_mistakes THEN
+    RAISE EXCEPTION 'Quiz attempt % has reached the mistake limit', _attempt_id USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT q.* INTO _question
+  FROM public.questions q
+  WHERE q.id = _question_id AND q.id = ANY(_attempt.question_ids);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question % not found', _question_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The option itself, then a loose match on an option or one of its variants
+  IF _answer = ANY(_question.options) THEN
+    _option := _answer;
+  ELSE
+    SELECT o.option INTO _option
+    FROM unnest(_question.options) AS o(option)
+    WHERE public.normalize_answer(o.option) = public.normalize_answer(_answer)
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(COALESCE(_question.accepted_variants -> o.option, '[]'::jsonb)) AS v(variant)
+        WHERE public.normalize_answer(v.variant) = public.normalize_answer(_answer)
+      )
+    LIMIT 1;
+  END IF;
+
+  IF _option IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.attempt_answers (
+    attempt_id, question_id, answer, correct_answer, input_mode, transcript, similarity, is_correct
+  )
+  VALUES (
+    _attempt_id, _question_id, _option, _question.correct_answer, _input_mode, _transcript, _similarity,
+    _option = _question.correct_answer
+  )
+  ON CONFLICT (attempt_id, question_id) DO NOTHING
+  RETURNING true INTO _inserted;
+
+  IF _inserted THEN
+    UPDATE public.quiz_attempts
+    SET score = score + (_option = _question.correct_answer)::int,
+        mistakes = mistakes + (_option <> _question.correct_answer)::int
+    WHERE id = _attempt_id;
+  END IF;
+
+  -- A repeated answer gets the verdict on the first one
+  RETURN QUERY
+  SELECT aa.answer, aa.is_correct, aa.correct_answer
+  FROM public.attempt_answers aa
+  WHERE aa.attempt_id = _attempt_id AND aa.question_id = _question_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_answer(UUID, UUID, TEXT, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_answer(UUID, UUID, TEXT, TEXT, TEXT, NUMERIC) TO authenticated;
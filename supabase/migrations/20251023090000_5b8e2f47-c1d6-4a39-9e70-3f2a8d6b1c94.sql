@@ -0,0 +1,8 @@
+-- A question that overrides both thresholds must keep them in the same order
+-- as the level's: a confirm threshold above the accept threshold would never
+-- ask "Did you mean...?". Overrides of only one value are checked against the
+-- level in the editor, since a CHECK cannot read the level row.
+ALTER TABLE public.questions
+  ADD CONSTRAINT question_thresholds_order CHECK (
+    match_threshold IS NULL OR confirm_threshold IS NULL OR confirm_threshold <= match_threshold
+  );
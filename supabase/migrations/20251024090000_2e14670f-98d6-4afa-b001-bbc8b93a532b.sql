@@ -0,0 +1,4 @@
+-- option_audio is read as an option -> URL map everywhere, including the
+-- quiz_questions view; reject arrays, strings and nulls stored by hand.
+ALTER TABLE public.questions
+  ADD CONSTRAINT question_option_audio_object CHECK (jsonb_typeof(option_audio) = 'object');
@@ -0,0 +1,104 @@
+-- A level without questions used to start an attempt with nothing to answer,
+-- which then passed on completion. Refuse to start it instead.
+CREATE OR REPLACE FUNCTION public.draw_quiz_questions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _question_count INTEGER;
+BEGIN
+  SELECT l.question_count INTO _question_count FROM public.levels l WHERE l.id = NEW.level_id;
+
+  NEW.question_ids := ARRAY(
+    SELECT q.id
+    FROM public.questions q
+    WHERE q.level_id = NEW.level_id
+    ORDER BY CASE WHEN _question_count IS NULL THEN 0 ELSE random() END, q.created_at
+    LIMIT _question_count
+  );
+
+  IF cardinality(NEW.question_ids) = 0 THEN
+    RAISE EXCEPTION 'This level has no questions yet' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Attempts started before the check above may still have no questions; they
+-- can never pass.
+CREATE OR REPLACE FUNCTION public.complete_quiz_attempt(_attempt_id UUID)
+RETURNS TABLE (outcome TEXT, score INTEGER, mistakes INTEGER, next_level_number INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _level public.levels%ROWTYPE;
+  _question_count INTEGER;
+  _answered INTEGER;
+  _score INTEGER;
+  _mistakes INTEGER;
+  _outcome TEXT;
+  _next_level_number INTEGER;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT cardinality(a.question_ids) INTO _question_count
+  FROM public.quiz_attempts a
+  WHERE a.id = _attempt_id AND a.user_id = _user_id AND a.ended_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz attempt % is not in progress', _attempt_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT l.* INTO _level
+  FROM public.quiz_attempts a
+  JOIN public.levels l ON l.id = a.level_id
+  WHERE a.id = _attempt_id;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE aa.is_correct), COUNT(*) FILTER (WHERE NOT aa.is_correct)
+  INTO _answered, _score, _mistakes
+  FROM public.attempt_answers aa
+  WHERE aa.attempt_id = _attempt_id;
+
+  _outcome := CASE
+    WHEN _question_count > 0
+      AND _answered = _question_count
+      AND (_level.max_mistakes IS NULL OR _mistakes < _level.max_mistakes)
+      AND _score * 100 >= _level.pass_mark * _question_count
+    THEN 'passed'
+    ELSE 'failed'
+  END;
+
+  IF _outcome = 'passed' THEN
+    INSERT INTO public.progress (user_id, level_number, status)
+    VALUES (_user_id, _level.level_number, 'completed')
+    ON CONFLICT (user_id, level_number) DO UPDATE SET status = 'completed';
+
+    SELECT MIN(l.level_number) INTO _next_level_number
+    FROM public.levels l
+    WHERE l.language = _level.language AND l.level_number > _level.level_number;
+
+    IF _next_level_number IS NOT NULL THEN
+      INSERT INTO public.progress AS p (user_id, level_number, status)
+      VALUES (_user_id, _next_level_number, 'unlocked')
+      ON CONFLICT (user_id, level_number) DO UPDATE SET status = 'unlocked'
+      WHERE p.status = 'locked';
+    END IF;
+  END IF;
+
+  -- After the progress rows exist, so the high score trigger can fill them in
+  UPDATE public.quiz_attempts a
+  SET ended_at = now(), score = _score, mistakes = _mistakes, outcome = _outcome
+  WHERE a.id = _attempt_id;
+
+  RETURN QUERY SELECT _outcome, _score, _mistakes, _next_level_number;
+END;
+$$;
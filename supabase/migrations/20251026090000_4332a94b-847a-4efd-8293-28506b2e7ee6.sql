@@ -0,0 +1,29 @@
+-- Learners need the accepted phrasings to match what they said, and the
+-- offline recognizer needs them in its grammar. They are shown grouped per
+-- option but without saying which option each group belongs to, ordered by
+-- their text rather than by option. submit_answer() still resolves the
+-- phrasing a learner picked to its option.
+CREATE OR REPLACE VIEW public.quiz_questions
+WITH (security_barrier = true)
+AS
+SELECT
+  id,
+  level_id,
+  question_text,
+  image_url,
+  options,
+  match_threshold,
+  confirm_threshold,
+  audio_url,
+  CASE WHEN public.covers_every_option(options, option_audio) THEN option_audio ELSE '{}'::jsonb END AS option_audio,
+  created_at,
+  COALESCE(
+    (
+      SELECT jsonb_agg(v.phrasings ORDER BY v.phrasings ->> 0)
+      FROM jsonb_each(accepted_variants) AS v(option, phrasings)
+      WHERE jsonb_typeof(v.phrasings) = 'array' AND jsonb_array_length(v.phrasings) > 0
+    ),
+    '[]'::jsonb
+  ) AS variant_phrasings
+FROM public.questions
+WHERE auth.uid() IS NOT NULL;